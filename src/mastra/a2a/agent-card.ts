@@ -0,0 +1,114 @@
+import { z } from "zod";
+import type { Agent, ToolsInput } from "@mastra/core/agent";
+import type { AgentCard, AgentSkill } from "@mastra/core/a2a";
+import { securityRequirements } from "./auth";
+
+const DEFAULT_MODES = ["text/plain", "application/json"];
+
+// Any tool an agent can be given: a Mastra tool or an AI SDK tool.
+type AgentTool = ToolsInput[string];
+
+// Public base URL for card endpoints; falls back to the URL the card was requested on.
+export function resolveBaseUrl(requestUrl: string) {
+  return (process.env.A2A_BASE_URL || new URL(requestUrl).origin).replace(
+    /\/+$/,
+    ""
+  );
+}
+
+// Describes a tool's zod input schema as "`name` (type, optional): description" lines.
+function describeInputs(schema: unknown) {
+  let jsonSchema: z.core.JSONSchema.BaseSchema;
+  try {
+    jsonSchema = z.toJSONSchema(schema as z.ZodType, { io: "input" });
+  } catch {
+    return { names: [], summary: "" };
+  }
+
+  const properties = jsonSchema.properties ?? {};
+  const required = jsonSchema.required ?? [];
+  const names = Object.keys(properties);
+  const summary = names
+    .map((name) => {
+      // `true` and `false` are valid property schemas too, with no type or description
+      const property = properties[name];
+      const { type, description } = typeof property === "boolean" ? {} : property;
+      const flags = [type, !required.includes(name) && "optional"]
+        .filter(Boolean)
+        .join(", ");
+      return `\`${name}\`${flags ? ` (${flags})` : ""}${description ? `: ${description.replace(/\.$/, "")}` : ""}`;
+    })
+    .join("; ");
+
+  return { names, summary };
+}
+
+// Named by the tool's id, or by its key in the agent's tools for AI SDK tools,
+// which have no id.
+function toolSkill(key: string, tool: AgentTool): AgentSkill {
+  const id = "id" in tool ? tool.id : key;
+  const { names, summary } = describeInputs(
+    "inputSchema" in tool ? tool.inputSchema : tool.parameters
+  );
+  return {
+    id,
+    name: id,
+    description: summary
+      ? `${tool.description} Inputs: ${summary}.`
+      : tool.description,
+    tags: ["tool", ...names],
+    inputModes: DEFAULT_MODES,
+    outputModes: DEFAULT_MODES,
+  };
+}
+
+// A sub-agent the agent delegates to, under the tool name Mastra gives it.
+function agentSkill(agentId: string, agent: Agent): AgentSkill {
+  return {
+    id: `agent-${agentId}`,
+    name: agent.name,
+    description: agent.getDescription() || `${agent.name} agent`,
+    tags: ["agent"],
+    inputModes: DEFAULT_MODES,
+    outputModes: DEFAULT_MODES,
+  };
+}
+
+export async function buildAgentCard(
+  agent: Agent,
+  agentId: string,
+  baseUrl: string
+): Promise<AgentCard> {
+  const tools = await agent.getTools();
+  const subAgents = await agent.listAgents();
+  const description = agent.getDescription() || `${agent.name} agent`;
+
+  const skills = [
+    ...Object.entries(subAgents).map(([id, subAgent]) => agentSkill(id, subAgent)),
+    ...Object.entries(tools).map(([key, tool]) => toolSkill(key, tool)),
+  ];
+  if (skills.length === 0) {
+    skills.push({
+      id: agentId,
+      name: agent.name,
+      description,
+      tags: ["chat"],
+    });
+  }
+
+  return {
+    name: agent.name,
+    description,
+    url: `${baseUrl}/a2a/agent/${agentId}`,
+    version: "1.0.0",
+    capabilities: {
+      streaming: true,
+      pushNotifications: true,
+      stateTransitionHistory: true,
+    },
+    defaultInputModes: DEFAULT_MODES,
+    defaultOutputModes: DEFAULT_MODES,
+    skills,
+    ...securityRequirements(),
+  };
+}
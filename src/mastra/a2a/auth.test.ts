@@ -0,0 +1,126 @@
+import { createHmac } from "crypto";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Mastra } from "@mastra/core/mastra";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "a2a-auth-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+vi.stubEnv("A2A_API_KEYS", "key-one, key-two");
+vi.stubEnv("TELEX_WEBHOOK_SECRET", "webhook-secret");
+vi.stubEnv("TELEX_SIGNATURE_TOLERANCE_SECONDS", "60");
+
+const { a2aAgentRoute } = await import("../routes/a2a-agent-route");
+const { serveRoutes, testAgent, textModel } = await import("./test-server");
+
+const mastra = new Mastra({ agents: { greeter: testAgent(textModel("Hello!")) }, logger: false });
+
+let server: Awaited<ReturnType<typeof serveRoutes>>;
+
+beforeAll(async () => {
+  server = await serveRoutes(mastra, [a2aAgentRoute]);
+});
+
+afterAll(async () => {
+  await server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// A `tasks/get` for a task that doesn't exist: authenticated callers get
+// `-32001 Task not found`, so nothing needs to run.
+const body = JSON.stringify({
+  jsonrpc: "2.0",
+  id: "auth-1",
+  method: "tasks/get",
+  params: { id: "no-such-task" },
+});
+
+function call(headers: Record<string, string>) {
+  return fetch(`${server.url}/a2a/agent/greeter`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+  });
+}
+
+function signed(secret = "webhook-secret", sentAt = Math.floor(Date.now() / 1000)) {
+  const timestamp = String(sentAt);
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return { "X-Telex-Timestamp": timestamp, "X-Telex-Signature": signature };
+}
+
+async function expectAccepted(response: Response) {
+  expect(response.status).toBe(404);
+  expect(await response.json()).toMatchObject({ id: "auth-1", error: { code: -32001 } });
+}
+
+async function expectUnauthorized(response: Response, reason: string) {
+  expect(response.status).toBe(401);
+  expect(response.headers.get("WWW-Authenticate")).toBe('Bearer realm="a2a"');
+  expect(await response.json()).toMatchObject({
+    jsonrpc: "2.0",
+    id: null,
+    error: { code: -32040, message: expect.stringContaining(reason) },
+  });
+}
+
+describe("A2A route authentication", () => {
+  it("rejects a request without credentials, naming what each scheme missed", async () => {
+    await expectUnauthorized(
+      await call({}),
+      "Unauthorized: missing bearer token; missing signature or timestamp"
+    );
+  });
+
+  describe("bearer API keys", () => {
+    it("accepts any configured key", async () => {
+      await expectAccepted(await call({ Authorization: "Bearer key-one" }));
+      await expectAccepted(await call({ Authorization: "bearer key-two" }));
+    });
+
+    it("rejects an unknown key", async () => {
+      await expectUnauthorized(await call({ Authorization: "Bearer key-three" }), "invalid API key");
+    });
+  });
+
+  describe("Telex HMAC signatures", () => {
+    it("accepts a fresh signature of the raw body, with or without the sha256= prefix", async () => {
+      await expectAccepted(await call(signed()));
+
+      const headers = signed();
+      headers["X-Telex-Signature"] = `sha256=${headers["X-Telex-Signature"]}`;
+      await expectAccepted(await call(headers));
+    });
+
+    it("rejects a signature made with another secret", async () => {
+      await expectUnauthorized(await call(signed("other-secret")), "invalid signature");
+    });
+
+    it("rejects a signature whose timestamp was changed", async () => {
+      const headers = signed();
+      headers["X-Telex-Timestamp"] = String(Number(headers["X-Telex-Timestamp"]) - 1);
+      await expectUnauthorized(await call(headers), "invalid signature");
+    });
+
+    it("rejects timestamps outside TELEX_SIGNATURE_TOLERANCE_SECONDS", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      await expectAccepted(await call(signed(undefined, now - 50)));
+
+      for (const sentAt of [now - 120, now + 120]) {
+        await expectUnauthorized(
+          await call(signed(undefined, sentAt)),
+          "timestamp outside the allowed window"
+        );
+      }
+    });
+  });
+
+  it("lets either scheme pass when the other fails", async () => {
+    await expectAccepted(await call({ Authorization: "Bearer wrong-key", ...signed() }));
+    await expectAccepted(
+      await call({ Authorization: "Bearer key-one", ...signed("other-secret") })
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { SecurityScheme } from "@mastra/core/a2a";
+
+export type AuthResult =
+  | { ok: true; principal: string }
+  | { ok: false; reason: string };
+
+/**
+ * One way of proving a request may call our agents. The scheme is advertised
+ * on Agent Cards under `id`; a request passes if any configured authenticator
+ * accepts it.
+ */
+export interface A2AAuthenticator {
+  id: string;
+  securityScheme: SecurityScheme;
+  authenticate(headers: Headers, rawBody: string): AuthResult | Promise<AuthResult>;
+}
+
+const SIGNATURE_HEADER = "x-telex-signature";
+const TIMESTAMP_HEADER = "x-telex-timestamp";
+
+// Compares digests so neither content nor length leaks through timing.
+function safeEqual(a: string, b: string) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function fingerprint(value: string) {
+  return createHash("sha256").update(value).digest("hex").slice(0, 12);
+}
+
+// Static bearer keys: `Authorization: Bearer <key>`.
+export function apiKeyAuthenticator(keys: string[]): A2AAuthenticator {
+  return {
+    id: "bearer",
+    securityScheme: {
+      type: "http",
+      scheme: "bearer",
+      description: "Static API key sent as `Authorization: Bearer <key>`",
+    },
+    authenticate(headers) {
+      const header = headers.get("authorization") || "";
+      const match = header.match(/^Bearer\s+(.+)$/i);
+      if (!match) return { ok: false, reason: "missing bearer token" };
+
+      const token = match[1].trim();
+      if (!keys.some((key) => safeEqual(key, token))) {
+        return { ok: false, reason: "invalid API key" };
+      }
+      return { ok: true, principal: `api-key:${fingerprint(token)}` };
+    },
+  };
+}
+
+// Telex webhook signatures: hex HMAC-SHA256 of `<timestamp>.<raw body>`, with
+// the timestamp (unix seconds) required to be recent to stop replays.
+export function hmacAuthenticator({
+  secret,
+  toleranceSeconds = 300,
+}: {
+  secret: string;
+  toleranceSeconds?: number;
+}): A2AAuthenticator {
+  return {
+    id: "telexSignature",
+    securityScheme: {
+      type: "apiKey",
+      in: "header",
+      name: "X-Telex-Signature",
+      description:
+        "HMAC-SHA256 of `<X-Telex-Timestamp>.<raw body>` with the shared webhook secret, hex encoded",
+    },
+    authenticate(headers, rawBody) {
+      const signature = headers.get(SIGNATURE_HEADER)?.replace(/^sha256=/, "");
+      const timestamp = headers.get(TIMESTAMP_HEADER);
+      if (!signature || !timestamp) {
+        return { ok: false, reason: "missing signature or timestamp" };
+      }
+
+      const sentAt = Number(timestamp);
+      const skew = Math.abs(Date.now() / 1000 - sentAt);
+      if (!Number.isFinite(sentAt) || skew > toleranceSeconds) {
+        return { ok: false, reason: "timestamp outside the allowed window" };
+      }
+
+      const expected = createHmac("sha256", secret)
+        .update(`${timestamp}.${rawBody}`)
+        .digest("hex");
+      if (!safeEqual(expected, signature.toLowerCase())) {
+        return { ok: false, reason: "invalid signature" };
+      }
+      return { ok: true, principal: "telex-webhook" };
+    },
+  };
+}
+
+function authenticatorsFromEnv() {
+  const authenticators: A2AAuthenticator[] = [];
+
+  const keys = (process.env.A2A_API_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  if (keys.length > 0) authenticators.push(apiKeyAuthenticator(keys));
+
+  if (process.env.TELEX_WEBHOOK_SECRET) {
+    authenticators.push(
+      hmacAuthenticator({
+        secret: process.env.TELEX_WEBHOOK_SECRET,
+        toleranceSeconds: Number(process.env.TELEX_SIGNATURE_TOLERANCE_SECONDS) || 300,
+      })
+    );
+  }
+
+  return authenticators;
+}
+
+const authenticators = authenticatorsFromEnv();
+
+export function registerAuthenticator(authenticator: A2AAuthenticator) {
+  authenticators.push(authenticator);
+}
+
+// With no authenticators configured the route stays open, as before.
+export async function authenticateRequest(
+  headers: Headers,
+  rawBody: string
+): Promise<AuthResult> {
+  if (authenticators.length === 0) return { ok: true, principal: "anonymous" };
+
+  const reasons: string[] = [];
+  for (const authenticator of authenticators) {
+    const result = await authenticator.authenticate(headers, rawBody);
+    if (result.ok) return result;
+    reasons.push(result.reason);
+  }
+  return { ok: false, reason: reasons.join("; ") };
+}
+
+// Agent Card fields advertising the accepted schemes (any one of them suffices).
+export function securityRequirements() {
+  if (authenticators.length === 0) return {};
+  return {
+    securitySchemes: Object.fromEntries(
+      authenticators.map((a) => [a.id, a.securityScheme])
+    ),
+    security: authenticators.map((a) => ({ [a.id]: [] })),
+  };
+}
@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync } from "fs";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { serve, type ServerType } from "@hono/node-server";
+import { Agent } from "@mastra/core/agent";
+import { Mastra } from "@mastra/core/mastra";
+import { Hono } from "hono";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "a2a-conformance-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+
+const { a2aAgentRoute } = await import("../routes/a2a-agent-route");
+const { conformanceChecks, runConformanceChecks } = await import("./conformance");
+
+// A model that answers every prompt with the same greeting, so the checks run
+// without a model provider.
+const greeting = "Hello from the greeter!";
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+const greeter = new Agent({
+  name: "Greeter",
+  instructions: "Greet the user.",
+  model: {
+    specificationVersion: "v2",
+    provider: "test",
+    modelId: "greeting",
+    supportedUrls: {},
+    doGenerate: async () => ({
+      content: [{ type: "text", text: greeting }],
+      finishReason: "stop",
+      usage,
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: "stream-start", warnings: [] });
+          controller.enqueue({ type: "text-start", id: "text-1" });
+          controller.enqueue({ type: "text-delta", id: "text-1", delta: greeting });
+          controller.enqueue({ type: "text-end", id: "text-1" });
+          controller.enqueue({ type: "finish", finishReason: "stop", usage });
+          controller.close();
+        },
+      }),
+    }),
+  },
+});
+
+// Serves the route the way `mastra dev` does: a Hono app with the Mastra
+// instance in the request context.
+const mastra = new Mastra({ agents: { greeter }, logger: false });
+const app = new Hono<{ Variables: { mastra: Mastra } }>();
+app.use(async (c, next) => {
+  c.set("mastra", mastra);
+  await next();
+});
+if (!("handler" in a2aAgentRoute)) throw new Error("a2aAgentRoute has no handler");
+app.post(a2aAgentRoute.path, a2aAgentRoute.handler);
+
+let server: ServerType;
+let url: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    server = serve({ fetch: app.fetch, hostname: "127.0.0.1", port: 0 }, () => resolve());
+  });
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/a2a/agent/greeter`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("runConformanceChecks against a2aAgentRoute", () => {
+  it("passes every check", async () => {
+    const report = await runConformanceChecks(url, { timeoutMs: 10_000 });
+
+    expect(report.results.map(({ id }) => id)).toEqual(conformanceChecks.map(({ id }) => id));
+    expect(report.results.filter(({ passed }) => !passed)).toEqual([]);
+    expect(report.failed).toBe(0);
+  });
+
+  it("reports a missing agent as failed checks", async () => {
+    const report = await runConformanceChecks(url.replace(/greeter$/, "nobody"), {
+      only: ["text-part"],
+      timeoutMs: 10_000,
+    });
+
+    expect(report.results).toEqual([
+      expect.objectContaining({
+        id: "text-part",
+        passed: false,
+        message: "agent answered with error -32602: Agent 'nobody' not found",
+      }),
+    ]);
+  });
+
+  it("fails JSON that isn't a JSON-RPC response", async () => {
+    // Answers every request with plain JSON, like a REST endpoint would
+    const rest = createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" }).end('{"ok":true}');
+    });
+    await new Promise<void>((resolve) => rest.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = rest.address() as AddressInfo;
+      const report = await runConformanceChecks(`http://127.0.0.1:${port}/a2a/agent/rest`, {
+        only: ["empty-body"],
+        timeoutMs: 10_000,
+      });
+
+      expect(report.results).toEqual([
+        expect.objectContaining({
+          passed: false,
+          message: 'expected a JSON-RPC response, got HTTP 200 with {"ok":true}',
+        }),
+      ]);
+    } finally {
+      await new Promise((resolve) => rest.close(resolve));
+    }
+  });
+
+  it("reports why a request never got a response", async () => {
+    // Nothing listens on the port once the server has closed
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const report = await runConformanceChecks(`http://127.0.0.1:${port}/a2a/agent/greeter`, {
+      only: ["empty-body"],
+    });
+
+    expect(report.results).toEqual([
+      expect.objectContaining({
+        passed: false,
+        message: `request failed: connect ECONNREFUSED 127.0.0.1:${port}`,
+      }),
+    ]);
+    expect(report.results[0]).not.toHaveProperty("observed");
+  });
+});
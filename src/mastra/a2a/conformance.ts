@@ -0,0 +1,290 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  a2aResponseSchemas,
+  formatIssues,
+  jsonRpcErrorResponseSchema,
+  jsonRpcSuccessResponseSchema,
+} from "./schemas";
+
+// Telex stops waiting for an agent after about 30 seconds.
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_LARGE_PAYLOAD_BYTES = 256 * 1024;
+// Longest response body echoed back in a report.
+const MAX_OBSERVED_CHARS = 600;
+
+export type ConformanceOptions = {
+  /** Extra request headers, e.g. `Authorization: Bearer <key>` */
+  headers?: Record<string, string>;
+  /** How long each check waits for a response */
+  timeoutMs?: number;
+  /** Approximate size of the large-payload request */
+  largePayloadBytes?: number;
+  /** Ids of the checks to run; all of them by default */
+  only?: string[];
+};
+
+export type ObservedResponse = {
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+export type CheckResult = {
+  id: string;
+  name: string;
+  passed: boolean;
+  /** Why it passed or failed, in one line */
+  message: string;
+  expected: string;
+  /** What came back; absent when the request never got a response */
+  observed?: ObservedResponse;
+  durationMs: number;
+};
+
+type Reply = ObservedResponse & {
+  /** The parsed body; undefined when it isn't JSON */
+  json: unknown;
+};
+
+// Any JSON-RPC response, whatever its result.
+const jsonRpcResponseSchema = z.union([
+  jsonRpcErrorResponseSchema,
+  jsonRpcSuccessResponseSchema(z.unknown()),
+]);
+
+type ConformanceCheck = {
+  id: string;
+  name: string;
+  expected: string;
+  /** Raw request body, sent as is */
+  body: (options: Required<Omit<ConformanceOptions, "headers" | "only">>) => string;
+  /** Returns a failure message, or null when the reply conforms */
+  verify: (reply: Reply, durationMs: number, timeoutMs: number) => string | null;
+};
+
+function sendRequest(id: string, parts: unknown[], metadata?: Record<string, unknown>) {
+  return JSON.stringify({
+    jsonrpc: "2.0",
+    id,
+    method: "message/send",
+    params: {
+      message: {
+        kind: "message",
+        role: "user",
+        parts,
+        messageId: randomUUID(),
+      },
+      configuration: { blocking: true },
+      ...(metadata && { metadata }),
+    },
+  });
+}
+
+function expectError(codes: number[], id: string | null) {
+  return (reply: Reply) => {
+    const parsed = jsonRpcErrorResponseSchema.safeParse(reply.json);
+    if (!parsed.success) {
+      return `expected a JSON-RPC error object, got ${describe(reply)}`;
+    }
+    const { code } = parsed.data.error;
+    if (!codes.includes(code)) {
+      return `expected error ${codes.join(" or ")}, got ${code} (${parsed.data.error.message})`;
+    }
+    if (parsed.data.id !== id) {
+      return `error has id ${JSON.stringify(parsed.data.id)}, expected ${JSON.stringify(id)}`;
+    }
+    return null;
+  };
+}
+
+function expectTask(id: string) {
+  return (reply: Reply) => {
+    const error = jsonRpcErrorResponseSchema.safeParse(reply.json);
+    if (error.success) {
+      return `agent answered with error ${error.data.error.code}: ${error.data.error.message}`;
+    }
+    if (reply.status !== 200) return `expected HTTP 200, got ${describe(reply)}`;
+    const parsed = a2aResponseSchemas["message/send"].safeParse(reply.json);
+    if (!parsed.success) {
+      const [issue] = formatIssues(parsed.error, "response");
+      return `not a valid message/send result: ${issue.path}: ${issue.message}`;
+    }
+    if (parsed.data.id !== id) {
+      return `response id ${JSON.stringify(parsed.data.id)} does not match request id "${id}"`;
+    }
+    const { state } = parsed.data.result.status;
+    if (["failed", "rejected", "canceled"].includes(state)) {
+      return `task ended in state '${state}'`;
+    }
+    return null;
+  };
+}
+
+function expectJsonRpc(reply: Reply) {
+  return jsonRpcResponseSchema.safeParse(reply.json).success
+    ? null
+    : `expected a JSON-RPC response, got ${describe(reply)}`;
+}
+
+function describe(reply: Reply) {
+  if (reply.json === undefined) {
+    return `HTTP ${reply.status} with non-JSON ${reply.contentType || "body"}`;
+  }
+  return `HTTP ${reply.status} with ${JSON.stringify(reply.json).slice(0, 120)}`;
+}
+
+const hello = [{ kind: "text", text: "Hello! Reply with a short greeting." }];
+
+/** The checks, in the order they run. */
+export const conformanceChecks: ConformanceCheck[] = [
+  {
+    id: "empty-body",
+    name: "Empty body",
+    expected: "a JSON response (a JSON-RPC error or a task), not a crash or an HTML page",
+    body: () => "",
+    verify: expectJsonRpc,
+  },
+  {
+    id: "malformed-json",
+    name: "Malformed JSON",
+    expected: "JSON-RPC error -32700 (parse error) with id null",
+    body: () => '{"jsonrpc": "2.0", "id": "conf-malformed", "method": "message/send",',
+    verify: expectError([-32700], null),
+  },
+  {
+    id: "missing-id",
+    name: "Request without an id",
+    expected: "JSON-RPC error -32600 (invalid request)",
+    body: () => JSON.stringify({ ...JSON.parse(sendRequest("x", hello)), id: undefined }),
+    verify: expectError([-32600], null),
+  },
+  {
+    id: "unknown-method",
+    name: "Unknown method",
+    expected: "JSON-RPC error -32601 (method not found) echoing the request id",
+    body: () =>
+      JSON.stringify({ jsonrpc: "2.0", id: "conf-unknown", method: "conformance/nope", params: {} }),
+    verify: expectError([-32601], "conf-unknown"),
+  },
+  {
+    id: "text-part",
+    name: "message/send with a text part",
+    expected: "a task result with the same id that did not fail",
+    body: () => sendRequest("conf-text", hello),
+    verify: expectTask("conf-text"),
+  },
+  {
+    id: "data-part",
+    name: "message/send with text and data parts",
+    expected: "a task result with the same id that did not fail",
+    body: () =>
+      sendRequest("conf-data", [
+        { kind: "text", text: "Summarize this data in one sentence." },
+        { kind: "data", data: { service: "checkout", status: "degraded", errorRate: 0.12 } },
+      ]),
+    verify: expectTask("conf-data"),
+  },
+  {
+    id: "large-payload",
+    name: "Large payload",
+    expected: "a JSON-RPC response (result or error), not a dropped connection or non-JSON 413",
+    // The bulk goes in `metadata`, so agents that ignore it don't pay for it
+    // in model tokens.
+    body: ({ largePayloadBytes }) =>
+      sendRequest("conf-large", hello, { padding: "x".repeat(largePayloadBytes) }),
+    verify: expectJsonRpc,
+  },
+  {
+    id: "timeout",
+    name: "Responds in time",
+    expected: "a response to message/send within the timeout Telex allows",
+    body: () => sendRequest("conf-timeout", [{ kind: "text", text: "ping" }]),
+    verify: (reply, durationMs, timeoutMs) =>
+      durationMs <= timeoutMs
+        ? null
+        : `took ${durationMs} ms, longer than the ${timeoutMs} ms allowed`,
+  },
+];
+
+async function send(url: string, body: string, headers: Record<string, string>, timeoutMs: number) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  const text = await response.text();
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return {
+    status: response.status,
+    contentType: response.headers.get("content-type") ?? "",
+    body: text,
+    json,
+  };
+}
+
+/**
+ * Runs the conformance checks against an A2A endpoint, one at a time so rate
+ * limits don't skew the results, and reports each with what came back.
+ */
+export async function runConformanceChecks(url: string, options: ConformanceOptions = {}) {
+  if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+    throw new Error(`'${url}' is not an http(s) URL`);
+  }
+  const settings = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    largePayloadBytes: options.largePayloadBytes ?? DEFAULT_LARGE_PAYLOAD_BYTES,
+  };
+  const checks = options.only
+    ? conformanceChecks.filter((check) => options.only!.includes(check.id))
+    : conformanceChecks;
+
+  const results: CheckResult[] = [];
+  for (const check of checks) {
+    const started = Date.now();
+    const base = { id: check.id, name: check.name, expected: check.expected };
+    try {
+      const reply = await send(url, check.body(settings), options.headers ?? {}, settings.timeoutMs);
+      const durationMs = Date.now() - started;
+      const failure = check.verify(reply, durationMs, settings.timeoutMs);
+      results.push({
+        ...base,
+        passed: failure === null,
+        message: failure ?? `HTTP ${reply.status} in ${durationMs} ms`,
+        observed: {
+          status: reply.status,
+          contentType: reply.contentType,
+          body: reply.body.slice(0, MAX_OBSERVED_CHARS),
+        },
+        durationMs,
+      });
+    } catch (error) {
+      const durationMs = Date.now() - started;
+      // fetch wraps network errors, so the cause says what actually went wrong
+      const cause = error instanceof Error ? error.cause : undefined;
+      const reason = cause instanceof Error ? cause : error;
+      results.push({
+        ...base,
+        passed: false,
+        message:
+          error instanceof Error && error.name === "TimeoutError"
+            ? `no response within ${settings.timeoutMs} ms`
+            : `request failed: ${reason instanceof Error ? reason.message : String(reason)}`,
+        durationMs,
+      });
+    }
+  }
+
+  return {
+    url,
+    passed: results.filter((result) => result.passed).length,
+    failed: results.filter((result) => !result.passed).length,
+    results,
+  };
+}
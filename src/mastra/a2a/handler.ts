@@ -0,0 +1,165 @@
+import { MastraA2AError } from "@mastra/core/a2a";
+import type { Mastra } from "@mastra/core/mastra";
+import { registerApiRoute } from "@mastra/core/server";
+import type { IncomingMessage } from "http";
+import type { z } from "zod";
+import { authenticateRequest } from "./auth";
+import {
+  A2AError,
+  httpStatusFor,
+  jsonRpcError,
+  jsonRpcResult,
+  unauthorizedError,
+} from "./jsonrpc";
+import { admitCall, callerKey } from "./rate-limit";
+import { formatIssues, jsonRpcRequestSchema, parseParams } from "./schemas";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export type MethodContext<Target = {}, Params = unknown> = Target & {
+  /** What the request runs, e.g. `agent:telexAgentBuilder`; keys its in-flight slots */
+  target: string;
+  requestId: string | number;
+  params: Params;
+  /** Rate-limit bucket of whoever sent the request */
+  caller: string;
+};
+
+// Each handler returns the JSON-RPC `result`, or a full Response for SSE methods.
+export type MethodHandler<Target = {}, Params = unknown> = (
+  ctx: MethodContext<Target, Params>
+) => Promise<unknown>;
+
+// Validates `params` against the method's schema before the handler runs.
+export function validated<Target, S extends z.ZodType>(
+  schema: S,
+  handler: MethodHandler<NoInfer<Target>, z.output<S>>
+): MethodHandler<Target> {
+  return (ctx) => handler({ ...ctx, params: parseParams(schema, ctx.params) });
+}
+
+// Handlers that run an agent or workflow draw on the caller's rate limit and
+// take one of the target's in-flight slots, which they must release once done.
+export function admitted<Target, Params>(
+  handler: (ctx: MethodContext<Target, Params>, release: () => void) => Promise<unknown>
+): MethodHandler<Target, Params> {
+  return async (ctx) => {
+    const release = await admitCall(ctx.target, ctx.caller);
+    try {
+      return await handler(ctx, release);
+    } catch (error) {
+      release();
+      throw error;
+    }
+  };
+}
+
+function internalError(error: unknown) {
+  return MastraA2AError.internalError("Internal error", {
+    details: error instanceof Error ? error.message : String(error),
+  });
+}
+
+export type A2ARouteOptions<Target> = {
+  kind: "agent" | "workflow";
+  /** Looks up what the request is for; `undefined` answers 404 */
+  resolve: (mastra: Mastra, id: string) => Target | undefined;
+  methods: Record<string, MethodHandler<Target>>;
+};
+
+/**
+ * Registers an A2A JSON-RPC route: authenticates the request, parses and
+ * validates the envelope, looks up the agent or workflow named by the path's
+ * one parameter and dispatches to the method's handler, mapping failures to
+ * JSON-RPC errors.
+ */
+export function createA2ARoute<Target>(
+  path: `/a2a/${string}`,
+  { kind, resolve, methods }: A2ARouteOptions<Target>
+) {
+  return registerApiRoute(path, {
+    method: "POST",
+    handler: async (c) => {
+      const fail = (id: string | number | null, error: MastraA2AError) => {
+        const retryAfter = error instanceof A2AError ? error.data?.retryAfter : undefined;
+        if (retryAfter) c.header("Retry-After", String(retryAfter));
+        return c.json(jsonRpcError(id, error), httpStatusFor(error));
+      };
+
+      try {
+        const mastra = c.get("mastra");
+        const [id] = Object.values(c.req.param()) as string[];
+
+        const text = await c.req.text();
+
+        // Authenticate against the raw body, since HMAC signatures cover it
+        const auth = await authenticateRequest(c.req.raw.headers, text);
+        if (!auth.ok) {
+          c.header("WWW-Authenticate", 'Bearer realm="a2a"');
+          return fail(null, unauthorizedError(auth.reason));
+        }
+
+        if (!text.trim()) {
+          return fail(null, MastraA2AError.invalidRequest("Invalid Request: the body is empty"));
+        }
+        let body: unknown;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          return fail(null, MastraA2AError.parseError("Parse error: Invalid JSON"));
+        }
+
+        const envelope = jsonRpcRequestSchema.safeParse(body);
+        if (!envelope.success) {
+          const id = jsonRpcRequestSchema.shape.id.safeParse(isObject(body) ? body.id : undefined);
+          return fail(
+            id.success ? id.data : null,
+            MastraA2AError.invalidRequest(
+              'Invalid Request: jsonrpc must be "2.0", id is required and method must be a string',
+              { issues: formatIssues(envelope.error, "request") }
+            )
+          );
+        }
+        const { id: requestId, method, params } = envelope.data;
+
+        if (!Object.hasOwn(methods, method)) {
+          return fail(requestId, MastraA2AError.methodNotFound(method));
+        }
+
+        // On Node, Hono's env carries the raw request and so the peer's address
+        const { incoming } = (c.env ?? {}) as { incoming?: IncomingMessage };
+        const resolved = resolve(mastra, id);
+        if (!resolved) {
+          const name = kind === "agent" ? "Agent" : "Workflow";
+          return c.json(
+            jsonRpcError(requestId, MastraA2AError.invalidParams(`${name} '${id}' not found`)),
+            404
+          );
+        }
+
+        try {
+          const result = await methods[method]({
+            ...resolved,
+            target: `${kind}:${id}`,
+            requestId,
+            params,
+            caller: callerKey(
+              auth.principal,
+              params,
+              c.req.raw.headers,
+              incoming?.socket.remoteAddress
+            ),
+          });
+          if (result instanceof Response) return result;
+          return c.json(jsonRpcResult(requestId, result));
+        } catch (error) {
+          if (error instanceof MastraA2AError) return fail(requestId, error);
+          return c.json(jsonRpcError(requestId, internalError(error)), 500);
+        }
+      } catch (error) {
+        return c.json(jsonRpcError(null, internalError(error)), 500);
+      }
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { MastraA2AError } from "@mastra/core/a2a";
+import type { JsonRpcErrorResponse, JsonRpcSuccessResponse } from "./schemas";
+
+export type JsonRpcId = string | number | null;
+
+// Server-defined error codes (JSON-RPC reserves -32000 to -32099 for these).
+export const ErrorCodeUnauthorized = -32040;
+export const ErrorCodeRateLimited = -32029;
+
+/** What the server-defined errors carry in their JSON-RPC `data`. */
+export type A2AErrorData = {
+  /** Seconds to wait before calling again, also sent as Retry-After */
+  retryAfter?: number;
+};
+
+/** A MastraA2AError for the server-defined codes, with typed `data`. */
+export class A2AError extends MastraA2AError {
+  declare data?: A2AErrorData;
+
+  constructor(code: number, message: string, data?: A2AErrorData) {
+    super(code, message, data);
+  }
+}
+
+export function unauthorizedError(reason: string) {
+  return new A2AError(ErrorCodeUnauthorized, `Unauthorized: ${reason}`);
+}
+
+// `retryAfter` (seconds) is echoed in the error data and the Retry-After header.
+export function rateLimitedError(message: string, retryAfter: number) {
+  return new A2AError(ErrorCodeRateLimited, message, { retryAfter });
+}
+
+export function jsonRpcResult<T>(id: JsonRpcId, result: T): JsonRpcSuccessResponse<T> {
+  return { jsonrpc: "2.0", id, result };
+}
+
+export function jsonRpcError(id: JsonRpcId, error: MastraA2AError): JsonRpcErrorResponse {
+  return { jsonrpc: "2.0", id, error: error.toJSONRPCError() };
+}
+
+// HTTP status that accompanies each JSON-RPC error code on our routes.
+export function httpStatusFor(error: MastraA2AError) {
+  switch (error.code) {
+    case -32700: // Parse error
+    case -32600: // Invalid Request
+    case -32602: // Invalid params
+      return 400;
+    case -32601: // Method not found
+    case -32001: // Task not found
+      return 404;
+    case ErrorCodeUnauthorized:
+      return 401;
+    case ErrorCodeRateLimited:
+      return 429;
+    case -32002: // Task not cancelable
+      return 409;
+    case -32005: // Incompatible content types
+      return 415;
+    case -32003: // Push notifications not supported
+    case -32004: // Unsupported operation
+      return 501;
+    default:
+      return 500;
+  }
+}
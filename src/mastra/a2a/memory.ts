@@ -0,0 +1,20 @@
+import type { Agent } from "@mastra/core/agent";
+import { telexIdentity } from "./metadata";
+import type { MessageSendParams } from "./schemas";
+
+/**
+ * Maps an A2A conversation onto Mastra memory: the `contextId` becomes the
+ * thread, and the Telex channel (or user) it came from becomes the resource,
+ * so follow-up messages in the same context recall earlier turns.
+ */
+export function resolveMemory(agent: Agent, contextId: string, params: MessageSendParams) {
+  if (!agent.hasOwnMemory()) return undefined;
+
+  const { channelId, userId } = telexIdentity(params);
+
+  let resource = `a2a-context:${contextId}`;
+  if (channelId) resource = `telex-channel:${channelId}`;
+  else if (userId) resource = `telex-user:${userId}`;
+
+  return { thread: contextId, resource };
+}
@@ -0,0 +1,33 @@
+// Metadata keys Telex (and other A2A clients) use for the channel and user.
+const CHANNEL_KEYS = ["telex_channel_id", "channel_id", "channelId"];
+const USER_KEYS = ["telex_user_id", "user_id", "userId"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function pick(sources: unknown[], keys: string[]): string | undefined {
+  for (const source of sources) {
+    if (!isObject(source)) continue;
+    for (const key of keys) {
+      const value = source[key];
+      if (typeof value === "string" || typeof value === "number") {
+        return String(value);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Reads the Telex channel and user ids from request or message metadata. Takes
+// unvalidated params too, since every method draws on the caller's rate limit.
+export function telexIdentity(params: unknown) {
+  const message = isObject(params) ? params.message : undefined;
+  const sources = [
+    isObject(params) ? params.metadata : undefined,
+    isObject(message) ? message.metadata : undefined,
+  ];
+  return {
+    channelId: pick(sources, CHANNEL_KEYS),
+    userId: pick(sources, USER_KEYS),
+  };
+}
@@ -0,0 +1,258 @@
+import { randomUUID } from "crypto";
+import { MastraA2AError, type Artifact, type FilePart, type Part } from "@mastra/core/a2a";
+import type { ChunkType } from "@mastra/core/stream";
+import { z } from "zod";
+import { formatIssues, type A2AMessage, type A2APart } from "./schemas";
+
+// A2A's "Incompatible content types" error.
+const ErrorCodeContentTypeNotSupported = -32005;
+
+const MAX_FILE_BYTES = Number(process.env.A2A_MAX_FILE_BYTES) || 5 * 1024 * 1024;
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const DOCUMENT_TYPES = ["application/pdf"];
+const TEXT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/toml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-sh",
+];
+
+// Used when a client leaves out `mimeType`, e.g. a pasted `package.json`.
+const EXTENSION_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  toml: "application/toml",
+  xml: "application/xml",
+  js: "application/javascript",
+  mjs: "application/javascript",
+  ts: "application/typescript",
+  sh: "application/x-sh",
+  md: "text/markdown",
+  txt: "text/plain",
+  log: "text/plain",
+  env: "text/plain",
+  py: "text/x-python",
+  go: "text/x-go",
+  rs: "text/x-rust",
+  java: "text/x-java",
+  php: "text/x-php",
+  cs: "text/x-csharp",
+};
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; image: string | URL; mediaType: string }
+  | { type: "file"; data: string | URL; mediaType: string; filename?: string };
+
+function mimeTypeOf(file: FilePart["file"]) {
+  if (file.mimeType) return file.mimeType.split(";")[0].trim().toLowerCase();
+  const source = file.name || ("uri" in file ? file.uri : "");
+  const extension = source.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  return (extension && EXTENSION_TYPES[extension]) || "application/octet-stream";
+}
+
+function isTextType(mimeType: string) {
+  return mimeType.startsWith("text/") || TEXT_TYPES.includes(mimeType);
+}
+
+function unsupported(name: string, mimeType: string) {
+  return new MastraA2AError(
+    ErrorCodeContentTypeNotSupported,
+    `Incompatible content types: file '${name}' has unsupported type '${mimeType}'`
+  );
+}
+
+/**
+ * Turns an A2A file part into model content. Images become image parts and
+ * PDFs file parts; text-like files are decoded inline so any model can read
+ * them. Inline files are capped at A2A_MAX_FILE_BYTES and only http(s) URIs
+ * are accepted.
+ */
+function fileToContent({ file }: Extract<A2APart, { kind: "file" }>): ContentPart {
+  const mimeType = mimeTypeOf(file);
+  const name = file.name || "attachment";
+  const isImage = IMAGE_TYPES.includes(mimeType);
+
+  if (!isImage && !DOCUMENT_TYPES.includes(mimeType) && !isTextType(mimeType)) {
+    throw unsupported(name, mimeType);
+  }
+
+  if ("uri" in file) {
+    let url: URL;
+    try {
+      url = new URL(file.uri);
+    } catch {
+      throw MastraA2AError.invalidParams(`Invalid params: file '${name}' has an invalid uri`);
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw MastraA2AError.invalidParams(
+        `Invalid params: file '${name}' must use an http(s) uri`
+      );
+    }
+    return isImage
+      ? { type: "image", image: url, mediaType: mimeType }
+      : { type: "file", data: url, mediaType: mimeType, filename: file.name };
+  }
+
+  const bytes = Buffer.from(file.bytes, "base64");
+  if (bytes.length > MAX_FILE_BYTES) {
+    throw MastraA2AError.invalidParams(
+      `Invalid params: file '${name}' is ${bytes.length} bytes, the limit is ${MAX_FILE_BYTES}`
+    );
+  }
+
+  if (isImage) return { type: "image", image: file.bytes, mediaType: mimeType };
+  if (isTextType(mimeType)) {
+    return {
+      type: "text",
+      text: `File: ${name} (${mimeType})\n\`\`\`\n${bytes.toString("utf8")}\n\`\`\``,
+    };
+  }
+  return { type: "file", data: file.bytes, mediaType: mimeType, filename: file.name };
+}
+
+function partToContent(part: A2APart): ContentPart {
+  if (part.kind === "text") return { type: "text", text: part.text };
+  if (part.kind === "data") return { type: "text", text: JSON.stringify(part.data) };
+  return fileToContent(part);
+}
+
+// Converts A2A messages into Mastra messages; plain-text messages stay strings.
+// Earlier agent turns are replayed as text only, since their files came from us.
+export function toMastraMessages(messagesList: A2AMessage[]) {
+  return messagesList.map((msg) => {
+    const content = msg.parts.map(partToContent);
+    const text = content
+      .flatMap((part) => (part.type === "text" ? [part.text] : []))
+      .join("\n");
+
+    if (msg.role === "agent") return { role: "assistant" as const, content: text };
+    if (content.every((part) => part.type === "text")) {
+      return { role: "user" as const, content: text };
+    }
+    return { role: "user" as const, content };
+  });
+}
+
+// The field of a workflow's input that text parts fill: its first required
+// string field, else its first optional one.
+function textField(schema: z.ZodType) {
+  if (!(schema instanceof z.ZodObject)) return undefined;
+  const strings = Object.entries(schema.shape as Record<string, z.ZodType>).filter(
+    ([, field]) => field.safeParse("text").success
+  );
+  return (strings.find(([, field]) => !field.safeParse(undefined).success) ?? strings[0])?.[0];
+}
+
+/**
+ * Maps the latest user message onto a workflow's input schema: the fields of a
+ * data part are used as given, and its text fills the schema's text field
+ * (e.g. `query`), or is the whole input when the schema isn't an object.
+ * Throws `-32602 Invalid params` naming the failing field if the result
+ * doesn't validate.
+ */
+export function toWorkflowInput(schema: z.ZodType, messagesList: A2AMessage[]) {
+  const parts = messagesList.filter((msg) => msg.role === "user").at(-1)?.parts ?? [];
+  const text = parts.flatMap((part) => (part.kind === "text" ? [part.text] : [])).join("\n");
+  const [data] = parts.flatMap((part) =>
+    part.kind === "data" && !Array.isArray(part.data) ? [part.data] : []
+  );
+
+  const field = textField(schema);
+  const input = field ? { ...(text && { [field]: text }), ...data } : (data ?? text);
+  const result = schema.safeParse(input);
+  if (result.success) return result.data;
+
+  const issues = formatIssues(result.error, "input");
+  throw MastraA2AError.invalidParams(
+    `Invalid params: ${issues[0].path}: ${issues[0].message}`,
+    { issues }
+  );
+}
+
+/** A tool call's result, as an agent run reports it in `toolResults`. */
+export type ToolResultChunk = Extract<ChunkType, { type: "tool-result" }>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Shape tools use to hand files back: `{ files: [{ name, mimeType, content | bytes | uri }] }`.
+type ToolFile = {
+  name?: string;
+  path?: string;
+  mimeType?: string;
+  content?: string;
+  bytes?: string;
+  uri?: string;
+};
+
+function toolFileToPart(file: ToolFile): FilePart | null {
+  const name = file.name || file.path;
+  const mimeType = file.mimeType || mimeTypeOf({ name, bytes: "" });
+
+  if (file.uri) return { kind: "file", file: { name, mimeType, uri: file.uri } };
+  const bytes =
+    file.bytes ??
+    (file.content !== undefined
+      ? Buffer.from(file.content, "utf8").toString("base64")
+      : undefined);
+  if (bytes === undefined) return null;
+  return { kind: "file", file: { name, mimeType, bytes } };
+}
+
+/**
+ * Collects files produced by a run into one `Files` artifact: files the model
+ * generated itself, plus any `files` array returned by a tool. A tool result
+ * with an `archive` (a zip of those files) contributes just the archive.
+ */
+export function fileArtifact(
+  files: { payload: { base64?: string; data: string | Uint8Array; mimeType: string } }[],
+  toolResults: ToolResultChunk[]
+): Artifact | null {
+  const parts: FilePart[] = files.map(({ payload }) => ({
+    kind: "file",
+    file: {
+      mimeType: payload.mimeType,
+      bytes:
+        payload.base64 ??
+        (typeof payload.data === "string"
+          ? payload.data
+          : Buffer.from(payload.data).toString("base64")),
+    },
+  }));
+
+  for (const toolResult of toolResults) {
+    const { result } = toolResult.payload;
+    if (!isObject(result)) continue;
+    const toolFiles = result.archive ? [result.archive] : result.files;
+    if (!Array.isArray(toolFiles)) continue;
+    for (const file of toolFiles) {
+      const part = toolFileToPart(file as ToolFile);
+      if (part) parts.push(part);
+    }
+  }
+
+  if (parts.length === 0) return null;
+  return { artifactId: randomUUID(), name: "Files", parts };
+}
+
+// A workflow step's output, as an artifact named after the step.
+export function stepArtifact(stepId: string, output: unknown): Artifact {
+  const part: Part =
+    output !== null && typeof output === "object" && !Array.isArray(output)
+      ? { kind: "data", data: output as Record<string, unknown> }
+      : { kind: "text", text: typeof output === "string" ? output : JSON.stringify(output) };
+  return { artifactId: randomUUID(), name: stepId, parts: [part] };
+}
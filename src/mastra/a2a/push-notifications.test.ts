@@ -0,0 +1,144 @@
+import { mkdtempSync, rmSync } from "fs";
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Task, TaskState } from "@mastra/core/a2a";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "a2a-push-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "push.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+vi.stubEnv("A2A_PUSH_MAX_ATTEMPTS", "3");
+vi.stubEnv("A2A_PUSH_RETRY_DELAY_MS", "20");
+// The stub callback below listens on loopback
+vi.stubEnv("A2A_PUSH_ALLOW_PRIVATE_URLS", "true");
+
+const { deliverPushNotification, notifyTaskUpdate, pushConfigStore } = await import(
+  "./push-notifications"
+);
+
+type Received = { at: number; headers: IncomingHttpHeaders; task: Task };
+
+// A callback that answers each POST with the next queued status, then 200. The
+// backoff checks allow a millisecond of timer jitter (18 for 20 ms, 38 for 40).
+let statuses: number[] = [];
+let received: Received[] = [];
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ at: Date.now(), headers: req.headers, task: JSON.parse(body) });
+      res.writeHead(statuses.shift() ?? 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/callback`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  statuses = [];
+  received = [];
+});
+
+function task(id: string, state: TaskState): Task {
+  return {
+    id,
+    contextId: "ctx-push",
+    kind: "task",
+    status: { state, timestamp: new Date().toISOString() },
+  };
+}
+
+describe("deliverPushNotification", () => {
+  it("retries a 500 and sends the token on every attempt", async () => {
+    statuses = [500];
+
+    const delivered = await deliverPushNotification(
+      { url, token: "secret-token" },
+      task("task-retry", "working")
+    );
+
+    expect(delivered).toBe(true);
+    expect(received).toHaveLength(2);
+    for (const { headers } of received) {
+      expect(headers["x-a2a-notification-token"]).toBe("secret-token");
+    }
+    expect(received[1].at - received[0].at).toBeGreaterThanOrEqual(18);
+  });
+
+  it("backs off exponentially and gives up after A2A_PUSH_MAX_ATTEMPTS", async () => {
+    statuses = [500, 503, 502, 200];
+
+    const delivered = await deliverPushNotification({ url }, task("task-down", "working"));
+
+    expect(delivered).toBe(false);
+    expect(received).toHaveLength(3);
+    expect(received[2].at - received[1].at).toBeGreaterThanOrEqual(38);
+  });
+
+  it("does not retry other 4xx responses", async () => {
+    statuses = [404];
+
+    expect(await deliverPushNotification({ url }, task("task-gone", "working"))).toBe(false);
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe("notifyTaskUpdate", () => {
+  it("delivers a task's updates in order even when one is retried", async () => {
+    await pushConfigStore.saveConfig("task-order", { url, token: "order-token" });
+    statuses = [500];
+
+    notifyTaskUpdate(task("task-order", "working"));
+    await notifyTaskUpdate(task("task-order", "completed"));
+
+    expect(received.map(({ task }) => task.status.state)).toEqual([
+      "working",
+      "working",
+      "completed",
+    ]);
+    for (const { headers } of received) {
+      expect(headers["x-a2a-notification-token"]).toBe("order-token");
+    }
+  });
+});
+
+describe("callback URLs", () => {
+  it("refuses loopback, private and link-local callbacks unless allowed", async () => {
+    vi.stubEnv("A2A_PUSH_ALLOW_PRIVATE_URLS", "");
+    vi.resetModules();
+    const { assertCallbackAllowed, deliverPushNotification } = await import(
+      "./push-notifications"
+    );
+
+    for (const blocked of [
+      url,
+      "http://localhost:4111/callback",
+      "http://10.0.0.5/callback",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/callback",
+      "http://[::ffff:127.0.0.1]/callback",
+    ]) {
+      await expect(assertCallbackAllowed({ url: blocked })).rejects.toMatchObject({
+        code: -32602,
+        message: expect.stringContaining("non-public address"),
+      });
+    }
+    await expect(assertCallbackAllowed({ url: "https://93.184.216.34/callback" })).resolves.toBe(
+      undefined
+    );
+
+    expect(await deliverPushNotification({ url }, task("task-private", "working"))).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,214 @@
+import type { Client } from "@libsql/client";
+import { MastraA2AError, type PushNotificationConfig, type Task } from "@mastra/core/a2a";
+import { PinoLogger } from "@mastra/loggers";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { libsqlClient } from "../storage";
+
+const MAX_ATTEMPTS = Number(process.env.A2A_PUSH_MAX_ATTEMPTS) || 5;
+const RETRY_DELAY_MS = Number(process.env.A2A_PUSH_RETRY_DELAY_MS) || 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+// Callbacks on this machine or its network, for local development only.
+const ALLOW_PRIVATE_URLS = ["1", "true"].includes(process.env.A2A_PUSH_ALLOW_PRIVATE_URLS ?? "");
+
+// Addresses a client-supplied callback may not reach: unspecified, private,
+// carrier-grade NAT, loopback, link-local (where cloud metadata services
+// live), multicast and reserved. IPv4-mapped IPv6 addresses match too.
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const logger = new PinoLogger({ name: "A2A-Push", level: "info" });
+
+export interface PushConfigStore {
+  getConfig(taskId: string): Promise<PushNotificationConfig | null>;
+  saveConfig(taskId: string, config: PushNotificationConfig): Promise<void>;
+}
+
+// One callback per task, kept next to the tasks so it survives restarts.
+export class LibSQLPushConfigStore implements PushConfigStore {
+  private ready?: Promise<void>;
+
+  constructor(private client: Client) {}
+
+  private init() {
+    this.ready ??= this.client
+      .execute(
+        `CREATE TABLE IF NOT EXISTS a2a_push_configs (
+          task_id TEXT PRIMARY KEY,
+          config TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`
+      )
+      .then(
+        () => undefined,
+        (error) => {
+          this.ready = undefined;
+          throw error;
+        }
+      );
+    return this.ready;
+  }
+
+  async getConfig(taskId: string) {
+    await this.init();
+    const { rows } = await this.client.execute({
+      sql: "SELECT config FROM a2a_push_configs WHERE task_id = ?",
+      args: [taskId],
+    });
+    return rows[0]
+      ? (JSON.parse(rows[0].config as string) as PushNotificationConfig)
+      : null;
+  }
+
+  async saveConfig(taskId: string, config: PushNotificationConfig) {
+    await this.init();
+    await this.client.execute({
+      sql: `INSERT INTO a2a_push_configs (task_id, config, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(task_id) DO UPDATE SET
+              config = excluded.config,
+              updated_at = excluded.updated_at`,
+      args: [taskId, JSON.stringify(config), new Date().toISOString()],
+    });
+  }
+}
+
+export const pushConfigStore: PushConfigStore = new LibSQLPushConfigStore(libsqlClient);
+
+// Why the server won't POST to a callback URL, if it won't: the host must
+// resolve, and only to public addresses.
+async function callbackProblem(url: string) {
+  if (ALLOW_PRIVATE_URLS) return undefined;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true }).catch(() => []);
+  if (addresses.length === 0) return `${host} does not resolve`;
+
+  const blocked = addresses.find(({ address, family }) =>
+    privateAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked && `${host} resolves to the non-public address ${blocked.address}`;
+}
+
+/**
+ * Rejects a push notification config whose callback the server must not
+ * call: anything on a loopback, private or link-local address, unless
+ * A2A_PUSH_ALLOW_PRIVATE_URLS is set.
+ */
+export async function assertCallbackAllowed(config: PushNotificationConfig) {
+  const problem = await callbackProblem(config.url);
+  if (problem) {
+    throw MastraA2AError.invalidParams(
+      `Invalid params: pushNotificationConfig.url is not allowed: ${problem}`
+    );
+  }
+}
+
+function pushHeaders(config: PushNotificationConfig) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.token) headers["X-A2A-Notification-Token"] = config.token;
+
+  const { schemes = [], credentials } = config.authentication ?? {};
+  if (credentials && schemes.some((scheme) => scheme.toLowerCase() === "bearer")) {
+    headers.Authorization = `Bearer ${credentials}`;
+  }
+  return headers;
+}
+
+// Network errors, timeouts, 429 and 5xx are worth another try; other 4xx are not.
+function isRetryable(status: number) {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * POSTs the task to the callback URL, retrying with exponential backoff
+ * (A2A_PUSH_RETRY_DELAY_MS, doubling) up to A2A_PUSH_MAX_ATTEMPTS times.
+ * Returns whether the callback accepted it. The URL is checked again before
+ * sending, since what its host resolves to can change after it was accepted,
+ * and redirects are not followed.
+ */
+export async function deliverPushNotification(
+  config: PushNotificationConfig,
+  task: Task
+) {
+  const problem = await callbackProblem(config.url);
+  if (problem) {
+    logger.error(`Not sending push notification for task ${task.id}: ${problem}`);
+    return false;
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let retryable = true;
+    try {
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers: pushHeaders(config),
+        body: JSON.stringify(task),
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (response.ok) return true;
+
+      retryable = isRetryable(response.status);
+      logger.warn(
+        `Push notification for task ${task.id} got HTTP ${response.status} (attempt ${attempt}/${MAX_ATTEMPTS})`
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        `Push notification for task ${task.id} failed: ${reason} (attempt ${attempt}/${MAX_ATTEMPTS})`
+      );
+    }
+
+    if (!retryable || attempt === MAX_ATTEMPTS) break;
+    await new Promise((resolve) =>
+      setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1))
+    );
+  }
+
+  logger.error(`Giving up on push notification for task ${task.id} (${config.url})`);
+  return false;
+}
+
+// Deliveries per task are chained so a retried update never overtakes a newer one.
+const deliveries = new Map<string, Promise<unknown>>();
+
+/**
+ * Sends the task to its registered callback, if any, in the background.
+ * Updates for the same task arrive in the order they were made.
+ */
+export function notifyTaskUpdate(task: Task) {
+  const previous = deliveries.get(task.id) ?? Promise.resolve();
+  const delivery = previous
+    .then(() => pushConfigStore.getConfig(task.id))
+    .then((config) => config && deliverPushNotification(config, task))
+    .catch((error) =>
+      logger.error(`Push notification for task ${task.id} failed: ${error.message}`)
+    )
+    .finally(() => {
+      if (deliveries.get(task.id) === delivery) deliveries.delete(task.id);
+    });
+  deliveries.set(task.id, delivery);
+  return delivery;
+}
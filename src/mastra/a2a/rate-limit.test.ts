@@ -0,0 +1,172 @@
+import { createClient } from "@libsql/client";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Mastra } from "@mastra/core/mastra";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "a2a-rate-limit-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+// Each route test authenticates with its own key, and so has its own bucket
+vi.stubEnv("A2A_API_KEYS", "burst,tasks,streaming,busy,fail-1,fail-2");
+vi.stubEnv("A2A_RATE_LIMIT_CAPACITY", "2");
+vi.stubEnv("A2A_RATE_LIMIT_PER_MINUTE", "1");
+vi.stubEnv("A2A_MAX_IN_FLIGHT_PER_AGENT", "1");
+
+const { InMemoryRateLimiter, LibSQLRateLimiter } = await import("./rate-limit");
+const { a2aAgentRoute } = await import("../routes/a2a-agent-route");
+const { serveRoutes, testAgent, textModel } = await import("./test-server");
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const config = { capacity: 3, refillPerSecond: 1 };
+
+describe.each([
+  ["InMemoryRateLimiter", () => new InMemoryRateLimiter(config)],
+  [
+    "LibSQLRateLimiter",
+    () => new LibSQLRateLimiter(createClient({ url: ":memory:" }), config),
+  ],
+])("%s", (_name, create) => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("allows a burst up to capacity, then asks the caller to retry", async () => {
+    const limiter = create();
+
+    expect(await limiter.consume("caller")).toEqual({ allowed: true, remaining: 2 });
+    expect(await limiter.consume("caller")).toEqual({ allowed: true, remaining: 1 });
+    expect(await limiter.consume("caller")).toEqual({ allowed: true, remaining: 0 });
+    expect(await limiter.consume("caller")).toEqual({ allowed: false, retryAfterSeconds: 1 });
+    // Other callers have buckets of their own
+    expect(await limiter.consume("someone-else")).toEqual({ allowed: true, remaining: 2 });
+  });
+
+  it("refills at refillPerSecond up to capacity", async () => {
+    const limiter = create();
+    for (let call = 0; call < 3; call++) await limiter.consume("caller");
+
+    vi.advanceTimersByTime(500);
+    expect(await limiter.consume("caller")).toEqual({ allowed: false, retryAfterSeconds: 1 });
+
+    vi.advanceTimersByTime(500);
+    expect(await limiter.consume("caller")).toEqual({ allowed: true, remaining: 0 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await limiter.consume("caller")).toEqual({ allowed: true, remaining: 2 });
+  });
+});
+
+describe("LibSQLRateLimiter storage", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("keeps one row per caller and drops rows that have refilled", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+    const client = createClient({ url: ":memory:" });
+    const limiter = new LibSQLRateLimiter(client, config);
+    const rows = async () =>
+      (await client.execute("SELECT key, tokens FROM a2a_rate_limits ORDER BY key")).rows.map(
+        ({ key, tokens }) => ({ key, tokens })
+      );
+
+    await limiter.consume("a");
+    await limiter.consume("a");
+    await limiter.consume("b");
+    expect(await rows()).toEqual([
+      { key: "a", tokens: 1 },
+      { key: "b", tokens: 2 },
+    ]);
+
+    // A minute on, both buckets are full again, so the next call sweeps them
+    vi.advanceTimersByTime(60_000);
+    await limiter.consume("c");
+    expect(await rows()).toEqual([{ key: "c", tokens: 2 }]);
+  });
+});
+
+describe("A2A route limits", () => {
+  const mastra = new Mastra({
+    agents: {
+      greeter: testAgent(textModel("Hello!")),
+      slow: testAgent(textModel("one two three four five six", { delayMs: 50 })),
+      broken: testAgent(textModel("", { fail: "model is down" })),
+    },
+    logger: false,
+  });
+  let server: Awaited<ReturnType<typeof serveRoutes>>;
+
+  beforeAll(async () => {
+    server = await serveRoutes(mastra, [a2aAgentRoute]);
+  });
+  afterAll(() => server.close());
+
+  function call(key: string, agentId: string, method: string, params: unknown) {
+    return fetch(`${server.url}/a2a/agent/${agentId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+      body: JSON.stringify({ jsonrpc: "2.0", id: "limit-1", method, params }),
+    });
+  }
+
+  const send = (key: string, agentId = "greeter", method = "message/send") =>
+    call(key, agentId, method, {
+      message: {
+        kind: "message",
+        role: "user",
+        parts: [{ kind: "text", text: "Hi" }],
+        messageId: crypto.randomUUID(),
+      },
+    });
+
+  async function expectRateLimited(response: Response, message: string) {
+    expect(response.status).toBe(429);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      id: "limit-1",
+      error: { code: -32029, message: expect.stringContaining(message) },
+    });
+    expect(Number(response.headers.get("Retry-After"))).toBe(body.error.data.retryAfter);
+    return body.error.data.retryAfter;
+  }
+
+  it("answers 429 with -32029 and Retry-After once a caller's burst is spent", async () => {
+    expect((await send("burst")).status).toBe(200);
+    expect((await send("burst")).status).toBe(200);
+
+    // One token a minute comes back after a minute
+    expect(await expectRateLimited(await send("burst"), "Rate limit exceeded")).toBe(60);
+  });
+
+  it("does not limit tasks/* methods", async () => {
+    const { result: task } = await (await send("tasks")).json();
+    await send("tasks");
+    await expectRateLimited(await send("tasks"), "Rate limit exceeded");
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const response = await call("tasks", "greeter", "tasks/get", { id: task.id });
+      expect(response.status).toBe(200);
+    }
+  });
+
+  it("caps the calls an agent runs at once and frees the slot when one ends", async () => {
+    const streaming = await send("streaming", "slow", "message/stream");
+    await expectRateLimited(await send("busy", "slow"), "Too many requests in flight for agent:slow");
+
+    await streaming.text();
+    expect((await send("busy", "slow")).status).toBe(200);
+  });
+
+  it("frees the slot when the agent fails", async () => {
+    const failed = await (await send("fail-1", "broken")).json();
+    expect(failed.result.status.state).toBe("failed");
+
+    const again = await send("fail-2", "broken");
+    expect(again.status).toBe(200);
+    expect((await again.json()).result.status.state).toBe("failed");
+  });
+});
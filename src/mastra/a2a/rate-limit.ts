@@ -0,0 +1,215 @@
+import type { Client } from "@libsql/client";
+import { libsqlClient } from "../storage";
+import { rateLimitedError } from "./jsonrpc";
+import { telexIdentity } from "./metadata";
+
+export type TokenBucketConfig = {
+  /** Burst size: how many calls a caller can make back to back */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+};
+
+export type RateLimitDecision =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+export interface RateLimiter {
+  consume(key: string): Promise<RateLimitDecision>;
+}
+
+function retryAfter(tokens: number, { refillPerSecond }: TokenBucketConfig) {
+  return Math.max(1, Math.ceil((1 - tokens) / refillPerSecond));
+}
+
+// Buckets that have refilled are dropped at most this often; a full bucket is
+// the same as none, so dropping it only frees memory (or rows).
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Token buckets held in process memory; fine for a single instance.
+export class InMemoryRateLimiter implements RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private sweptAt = Date.now();
+
+  constructor(private config: TokenBucketConfig) {}
+
+  private refilled(bucket: { tokens: number; updatedAt: number }, now: number) {
+    const { capacity, refillPerSecond } = this.config;
+    return Math.min(
+      capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond
+    );
+  }
+
+  private sweep(now: number) {
+    if (now - this.sweptAt < SWEEP_INTERVAL_MS) return;
+    this.sweptAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (this.refilled(bucket, now) >= this.config.capacity) this.buckets.delete(key);
+    }
+  }
+
+  async consume(key: string): Promise<RateLimitDecision> {
+    const now = Date.now();
+    this.sweep(now);
+    const bucket = this.buckets.get(key) ?? { tokens: this.config.capacity, updatedAt: now };
+
+    const tokens = this.refilled(bucket, now);
+    if (tokens < 1) {
+      this.buckets.set(key, { tokens, updatedAt: now });
+      return { allowed: false, retryAfterSeconds: retryAfter(tokens, this.config) };
+    }
+
+    this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+    return { allowed: true, remaining: Math.floor(tokens - 1) };
+  }
+}
+
+/**
+ * Token buckets stored in LibSQL so several server instances share one budget.
+ * Refill and spend happen in a single conditional upsert, so concurrent
+ * requests cannot both take the last token.
+ */
+export class LibSQLRateLimiter implements RateLimiter {
+  private ready?: Promise<void>;
+  private sweptAt = Date.now();
+
+  constructor(
+    private client: Client,
+    private config: TokenBucketConfig
+  ) {}
+
+  private init() {
+    this.ready ??= this.client
+      .execute(
+        `CREATE TABLE IF NOT EXISTS a2a_rate_limits (
+          key TEXT PRIMARY KEY,
+          tokens REAL NOT NULL,
+          updated_at INTEGER NOT NULL
+        )`
+      )
+      .then(
+        () => undefined,
+        (error) => {
+          this.ready = undefined;
+          throw error;
+        }
+      );
+    return this.ready;
+  }
+
+  async consume(key: string): Promise<RateLimitDecision> {
+    await this.init();
+    const { capacity, refillPerSecond } = this.config;
+    const now = Date.now();
+    const refilled = `MIN(?, tokens + (? - updated_at) / 1000.0 * ?)`;
+
+    const { rows } = await this.client.execute({
+      sql: `INSERT INTO a2a_rate_limits (key, tokens, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(key) DO UPDATE SET
+              tokens = ${refilled} - 1,
+              updated_at = excluded.updated_at
+            WHERE ${refilled} >= 1
+            RETURNING tokens`,
+      args: [
+        key,
+        capacity - 1,
+        now,
+        capacity,
+        now,
+        refillPerSecond,
+        capacity,
+        now,
+        refillPerSecond,
+      ],
+    });
+    if (now - this.sweptAt >= SWEEP_INTERVAL_MS) {
+      this.sweptAt = now;
+      await this.client.execute({
+        sql: `DELETE FROM a2a_rate_limits WHERE ${refilled} >= ?`,
+        args: [capacity, now, refillPerSecond, capacity],
+      });
+    }
+    if (rows[0]) {
+      return { allowed: true, remaining: Math.floor(Number(rows[0].tokens)) };
+    }
+
+    const current = await this.client.execute({
+      sql: `SELECT ${refilled} AS tokens FROM a2a_rate_limits WHERE key = ?`,
+      args: [capacity, now, refillPerSecond, key],
+    });
+    const tokens = Number(current.rows[0]?.tokens ?? 0);
+    return { allowed: false, retryAfterSeconds: retryAfter(tokens, this.config) };
+  }
+}
+
+const bucketConfig: TokenBucketConfig = {
+  capacity: Number(process.env.A2A_RATE_LIMIT_CAPACITY) || 30,
+  refillPerSecond: (Number(process.env.A2A_RATE_LIMIT_PER_MINUTE) || 30) / 60,
+};
+
+export const rateLimiter: RateLimiter =
+  process.env.A2A_RATE_LIMIT_STORE === "libsql"
+    ? new LibSQLRateLimiter(libsqlClient, bucketConfig)
+    : new InMemoryRateLimiter(bucketConfig);
+
+// Forwarding headers are set by whoever sends the request, so they only name
+// the client behind a proxy that overwrites them.
+const trustProxy = ["1", "true"].includes(process.env.A2A_TRUST_PROXY ?? "");
+
+/**
+ * Picks the bucket a request draws from: the authenticated principal, split by
+ * Telex channel for HMAC-verified Telex requests (only Telex can sign those
+ * metadata fields), else the client IP when the route is open.
+ */
+export function callerKey(
+  principal: string,
+  params: unknown,
+  headers: Headers,
+  remoteAddress?: string
+) {
+  if (principal === "telex-webhook") {
+    const { channelId } = telexIdentity(params);
+    return channelId ? `telex-channel:${channelId}` : principal;
+  }
+  if (principal !== "anonymous") return principal;
+
+  const forwarded = trustProxy
+    ? headers.get("x-forwarded-for")?.split(",")[0].trim() || headers.get("x-real-ip")
+    : undefined;
+  return `ip:${forwarded || remoteAddress || "unknown"}`;
+}
+
+const maxInFlight = Number(process.env.A2A_MAX_IN_FLIGHT_PER_AGENT) || 10;
+const inFlight = new Map<string, number>();
+
+/**
+ * Admits one agent or workflow run: spends a token from the caller's bucket
+ * and takes one of the target's in-flight slots (`target` is e.g.
+ * `agent:telexAgentBuilder`). Throws a rate-limit error when either is
+ * exhausted; otherwise returns a function that frees the slot.
+ */
+export async function admitCall(target: string, callerKey: string) {
+  const decision = await rateLimiter.consume(callerKey);
+  if (!decision.allowed) {
+    throw rateLimitedError(
+      `Rate limit exceeded for ${callerKey}`,
+      decision.retryAfterSeconds
+    );
+  }
+
+  const running = inFlight.get(target) ?? 0;
+  if (running >= maxInFlight) {
+    throw rateLimitedError(`Too many requests in flight for ${target}`, 1);
+  }
+  inFlight.set(target, running + 1);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (inFlight.get(target) ?? 1) - 1;
+    if (count > 0) inFlight.set(target, count);
+    else inFlight.delete(target);
+  };
+}
@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { MastraA2AError } from "@mastra/core/a2a";
+
+// Zod schemas for the A2A payloads this server accepts and returns. The route
+// validates every request with them; clients and tests can reuse them too.
+
+const metadataSchema = z.record(z.string(), z.unknown());
+
+export const textPartSchema = z.object({
+  kind: z.literal("text"),
+  text: z.string(),
+  metadata: metadataSchema.optional(),
+});
+
+const fileBase = {
+  name: z.string().optional(),
+  mimeType: z.string().optional(),
+};
+
+export const fileWithBytesSchema = z.object({
+  ...fileBase,
+  bytes: z.string().min(1, "bytes must be base64 content"),
+});
+
+export const fileWithUriSchema = z.object({
+  ...fileBase,
+  uri: z.string().min(1, "uri must not be empty"),
+});
+
+export const filePartSchema = z.object({
+  kind: z.literal("file"),
+  file: z.union([fileWithBytesSchema, fileWithUriSchema], {
+    error: "file must have either bytes or uri",
+  }),
+  metadata: metadataSchema.optional(),
+});
+
+// The spec makes `data` an object, but Telex sends earlier turns as an array.
+export const dataPartSchema = z.object({
+  kind: z.literal("data"),
+  data: z.union([metadataSchema, z.array(z.unknown())]),
+  metadata: metadataSchema.optional(),
+});
+
+export const partSchema = z.discriminatedUnion(
+  "kind",
+  [textPartSchema, filePartSchema, dataPartSchema],
+  { error: 'kind must be "text", "file" or "data"' }
+);
+
+export const messageSchema = z.object({
+  kind: z.literal("message").default("message"),
+  role: z.enum(["user", "agent"]),
+  parts: z.array(partSchema).min(1, "parts must contain at least one part"),
+  messageId: z.string().optional(),
+  taskId: z.string().optional(),
+  contextId: z.string().optional(),
+  referenceTaskIds: z.array(z.string()).optional(),
+  extensions: z.array(z.string()).optional(),
+  metadata: metadataSchema.optional(),
+});
+
+export const taskStateSchema = z.enum([
+  "submitted",
+  "working",
+  "input-required",
+  "completed",
+  "canceled",
+  "failed",
+  "rejected",
+  "auth-required",
+  "unknown",
+]);
+
+export const taskStatusSchema = z.object({
+  state: taskStateSchema,
+  message: messageSchema.optional(),
+  timestamp: z.string().optional(),
+});
+
+export const artifactSchema = z.object({
+  artifactId: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  parts: z.array(partSchema),
+  extensions: z.array(z.string()).optional(),
+  metadata: metadataSchema.optional(),
+});
+
+export const taskSchema = z.object({
+  kind: z.literal("task"),
+  id: z.string(),
+  contextId: z.string(),
+  status: taskStatusSchema,
+  artifacts: z.array(artifactSchema).optional(),
+  history: z.array(messageSchema).optional(),
+  metadata: metadataSchema.optional(),
+});
+
+export const taskStatusUpdateEventSchema = z.object({
+  kind: z.literal("status-update"),
+  taskId: z.string(),
+  contextId: z.string(),
+  status: taskStatusSchema,
+  final: z.boolean(),
+  metadata: metadataSchema.optional(),
+});
+
+export const taskArtifactUpdateEventSchema = z.object({
+  kind: z.literal("artifact-update"),
+  taskId: z.string(),
+  contextId: z.string(),
+  artifact: artifactSchema,
+  append: z.boolean().optional(),
+  lastChunk: z.boolean().optional(),
+  metadata: metadataSchema.optional(),
+});
+
+export const taskEventSchema = z.discriminatedUnion("kind", [
+  taskStatusUpdateEventSchema,
+  taskArtifactUpdateEventSchema,
+]);
+
+// Method params
+
+export const pushNotificationConfigSchema = z.object({
+  id: z.string().optional(),
+  url: z.url({
+    protocol: /^https?$/,
+    error: "url must be an http(s) URL",
+  }),
+  token: z.string().optional(),
+  authentication: z
+    .object({
+      schemes: z.array(z.string()),
+      credentials: z.string().optional(),
+    })
+    .optional(),
+});
+
+export const messageSendConfigurationSchema = z.object({
+  blocking: z.boolean().optional(),
+  historyLength: z.number().int().min(0).optional(),
+  acceptedOutputModes: z.array(z.string()).optional(),
+  pushNotificationConfig: pushNotificationConfigSchema.optional(),
+});
+
+// `messages` (several at once) is accepted alongside the spec's single `message`.
+export const messageSendParamsSchema = z
+  .object({
+    message: messageSchema.optional(),
+    messages: z.array(messageSchema).min(1).optional(),
+    taskId: z.string().optional(),
+    contextId: z.string().optional(),
+    configuration: messageSendConfigurationSchema.optional(),
+    metadata: metadataSchema.optional(),
+  })
+  .refine((params) => params.message || params.messages, {
+    message: "message is required",
+    path: ["message"],
+  });
+
+export const taskIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  metadata: metadataSchema.optional(),
+});
+
+export const taskQueryParamsSchema = taskIdParamsSchema.extend({
+  historyLength: z.number().int().min(0).optional(),
+});
+
+export const taskPushNotificationConfigSchema = z.object({
+  taskId: z.string().min(1, "taskId is required"),
+  pushNotificationConfig: pushNotificationConfigSchema,
+});
+
+// JSON-RPC envelopes
+
+export const jsonRpcIdSchema = z.union([z.string(), z.number()]);
+
+export const jsonRpcRequestSchema = z.object({
+  jsonrpc: z.literal("2.0"),
+  id: jsonRpcIdSchema,
+  method: z.string(),
+  params: z.unknown().optional(),
+});
+
+export const jsonRpcErrorSchema = z.object({
+  code: z.number().int(),
+  message: z.string(),
+  data: z.unknown().optional(),
+});
+
+export const jsonRpcErrorResponseSchema = z.object({
+  jsonrpc: z.literal("2.0"),
+  id: jsonRpcIdSchema.nullable(),
+  error: jsonRpcErrorSchema,
+});
+
+export function jsonRpcSuccessResponseSchema<T extends z.ZodType>(result: T) {
+  return z.object({
+    jsonrpc: z.literal("2.0"),
+    id: jsonRpcIdSchema.nullable(),
+    result,
+  });
+}
+
+// Params per method, as validated by `a2aAgentRoute`.
+export const a2aParamsSchemas = {
+  "message/send": messageSendParamsSchema,
+  "message/stream": messageSendParamsSchema,
+  "tasks/get": taskQueryParamsSchema,
+  "tasks/cancel": taskIdParamsSchema,
+  "tasks/resubscribe": taskIdParamsSchema,
+  "tasks/pushNotificationConfig/set": taskPushNotificationConfigSchema,
+  "tasks/pushNotificationConfig/get": taskIdParamsSchema,
+};
+
+export type A2AMethod = keyof typeof a2aParamsSchemas;
+
+// Response bodies per method; the SSE methods send one success response per event.
+export const a2aResponseSchemas = {
+  "message/send": jsonRpcSuccessResponseSchema(taskSchema),
+  "message/stream": jsonRpcSuccessResponseSchema(taskEventSchema),
+  "tasks/get": jsonRpcSuccessResponseSchema(taskSchema),
+  "tasks/cancel": jsonRpcSuccessResponseSchema(taskSchema),
+  "tasks/resubscribe": jsonRpcSuccessResponseSchema(taskEventSchema),
+  "tasks/pushNotificationConfig/set": jsonRpcSuccessResponseSchema(
+    taskPushNotificationConfigSchema
+  ),
+  "tasks/pushNotificationConfig/get": jsonRpcSuccessResponseSchema(
+    taskPushNotificationConfigSchema
+  ),
+};
+
+export type A2APart = z.infer<typeof partSchema>;
+export type A2AMessage = z.infer<typeof messageSchema>;
+export type A2ATask = z.infer<typeof taskSchema>;
+export type MessageSendParams = z.infer<typeof messageSendParamsSchema>;
+export type TaskIdParams = z.infer<typeof taskIdParamsSchema>;
+export type TaskQueryParams = z.infer<typeof taskQueryParamsSchema>;
+export type TaskPushNotificationConfig = z.infer<typeof taskPushNotificationConfigSchema>;
+export type JsonRpcRequest = z.infer<typeof jsonRpcRequestSchema>;
+export type JsonRpcErrorResponse = z.infer<typeof jsonRpcErrorResponseSchema>;
+export type JsonRpcSuccessResponse<T = unknown> = {
+  jsonrpc: "2.0";
+  id: z.infer<typeof jsonRpcIdSchema> | null;
+  result: T;
+};
+
+// Renders an issue path as `params.message.parts[0].kind`.
+function formatPath(root: string, path: PropertyKey[]) {
+  return path.reduce<string>(
+    (formatted, key) =>
+      typeof key === "number" ? `${formatted}[${key}]` : `${formatted}.${String(key)}`,
+    root
+  );
+}
+
+export function formatIssues(error: z.ZodError, root: string) {
+  return error.issues.map((issue) => ({
+    path: formatPath(root, issue.path),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validates method params, throwing a `-32602 Invalid params` error that names
+ * the first failing path; every issue is listed in the error data.
+ */
+export function parseParams<T extends z.ZodType>(schema: T, params: unknown): z.output<T> {
+  const result = schema.safeParse(params ?? {});
+  if (result.success) return result.data;
+
+  const issues = formatIssues(result.error, "params");
+  throw MastraA2AError.invalidParams(
+    `Invalid params: ${issues[0].path}: ${issues[0].message}`,
+    { issues }
+  );
+}
@@ -0,0 +1,58 @@
+const encoder = new TextEncoder();
+
+type SendEvent = (result: unknown) => void;
+
+/**
+ * Wraps an async producer in a `text/event-stream` response. Every result the
+ * producer sends is framed as a JSON-RPC response to the originating request,
+ * which is what A2A clients expect from `message/stream`. `onCancel` runs when
+ * the client disconnects, so the producer can stop the work behind the stream.
+ */
+export function createSSEResponse(
+  requestId: string | number | null,
+  produce: (send: SendEvent) => Promise<void>,
+  onCancel?: () => void
+) {
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (payload: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      try {
+        await produce((result) => write({ jsonrpc: "2.0", id: requestId, result }));
+      } catch (error) {
+        write({
+          jsonrpc: "2.0",
+          id: requestId,
+          error: {
+            code: -32603,
+            message: "Internal error",
+            data: { details: error instanceof Error ? error.message : String(error) },
+          },
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      // Client went away; drop any further events instead of throwing.
+      closed = true;
+      onCancel?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { EventEmitter } from "events";
+import type {
+  TaskArtifactUpdateEvent,
+  TaskStatusUpdateEvent,
+} from "@mastra/core/a2a";
+
+export type TaskEvent = TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+
+// Tasks still being generated in this process, so `tasks/cancel` can abort them
+// and `tasks/resubscribe` can follow their live updates.
+const runningTasks = new Map<string, AbortController>();
+const taskEvents = new EventEmitter().setMaxListeners(0);
+
+export function startTaskRun(taskId: string) {
+  const controller = new AbortController();
+  runningTasks.set(taskId, controller);
+  return controller;
+}
+
+export function finishTaskRun(taskId: string) {
+  runningTasks.delete(taskId);
+}
+
+export function abortTaskRun(taskId: string) {
+  runningTasks.get(taskId)?.abort();
+  runningTasks.delete(taskId);
+}
+
+export function isTaskRunning(taskId: string) {
+  return runningTasks.has(taskId);
+}
+
+export function publishTaskEvent(event: TaskEvent) {
+  taskEvents.emit(event.taskId, event);
+}
+
+export function subscribeToTask(
+  taskId: string,
+  listener: (event: TaskEvent) => void
+) {
+  taskEvents.on(taskId, listener);
+  return () => {
+    taskEvents.off(taskId, listener);
+  };
+}
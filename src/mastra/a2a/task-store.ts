@@ -0,0 +1,139 @@
+import { createClient, type Client } from "@libsql/client";
+import type { Task, TaskState, TaskStatus } from "@mastra/core/a2a";
+import { libsqlClient } from "../storage";
+
+export type TaskStoreConfig = { client: Client } | { url: string; authToken?: string };
+
+export interface A2ATaskStore {
+  getTask(taskId: string): Promise<Task | null>;
+  saveTask(task: Task): Promise<void>;
+  listTasks(contextId: string): Promise<Task[]>;
+  getTransitions(taskId: string): Promise<TaskStatus[]>;
+}
+
+const TERMINAL_STATES: TaskState[] = ["completed", "failed", "canceled", "rejected"];
+
+// Allowed lifecycle moves; terminal states have no way out.
+const TASK_TRANSITIONS: Partial<Record<TaskState, TaskState[]>> = {
+  submitted: ["working", "input-required", "completed", "failed", "canceled"],
+  working: ["input-required", "completed", "failed", "canceled"],
+  "input-required": ["working", "completed", "failed", "canceled"],
+};
+
+export function isTerminal(task: Task) {
+  return TERMINAL_STATES.includes(task.status.state);
+}
+
+export function canTransition(from: TaskState, to: TaskState) {
+  return TASK_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Stores A2A tasks in LibSQL: one row per task holding the full task JSON
+ * (status, artifacts, history), plus an append-only log of status transitions.
+ * Works against `:memory:`, `file:` and remote LibSQL URLs.
+ */
+export class LibSQLTaskStore implements A2ATaskStore {
+  private client: Client;
+  private ready?: Promise<void>;
+
+  constructor(config: TaskStoreConfig) {
+    this.client =
+      "client" in config
+        ? config.client
+        : createClient({ url: config.url, authToken: config.authToken });
+  }
+
+  private init() {
+    this.ready ??= this.client
+      .batch(
+        [
+          `CREATE TABLE IF NOT EXISTS a2a_tasks (
+            id TEXT PRIMARY KEY,
+            context_id TEXT NOT NULL,
+            state TEXT NOT NULL,
+            task TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          )`,
+          `CREATE INDEX IF NOT EXISTS a2a_tasks_context_id ON a2a_tasks (context_id)`,
+          `CREATE TABLE IF NOT EXISTS a2a_task_transitions (
+            task_id TEXT NOT NULL,
+            state TEXT NOT NULL,
+            status TEXT NOT NULL,
+            created_at TEXT NOT NULL
+          )`,
+          `CREATE INDEX IF NOT EXISTS a2a_task_transitions_task_id ON a2a_task_transitions (task_id)`,
+        ],
+        "write"
+      )
+      .then(
+        () => undefined,
+        (error) => {
+          this.ready = undefined;
+          throw error;
+        }
+      );
+    return this.ready;
+  }
+
+  async getTask(taskId: string) {
+    await this.init();
+    const { rows } = await this.client.execute({
+      sql: "SELECT task FROM a2a_tasks WHERE id = ?",
+      args: [taskId],
+    });
+    return rows[0] ? (JSON.parse(rows[0].task as string) as Task) : null;
+  }
+
+  async saveTask(task: Task) {
+    await this.init();
+    const now = new Date().toISOString();
+    const { state } = task.status;
+
+    await this.client.batch(
+      [
+        {
+          // Log the status only when it differs from what is stored.
+          sql: `INSERT INTO a2a_task_transitions (task_id, state, status, created_at)
+                SELECT ?, ?, ?, ?
+                WHERE NOT EXISTS (SELECT 1 FROM a2a_tasks WHERE id = ? AND state = ?)`,
+          args: [task.id, state, JSON.stringify(task.status), now, task.id, state],
+        },
+        {
+          sql: `INSERT INTO a2a_tasks (id, context_id, state, task, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+                ON CONFLICT(id) DO UPDATE SET
+                  context_id = excluded.context_id,
+                  state = excluded.state,
+                  task = excluded.task,
+                  updated_at = excluded.updated_at`,
+          args: [task.id, task.contextId, state, JSON.stringify(task), now, now],
+        },
+      ],
+      "write"
+    );
+  }
+
+  async listTasks(contextId: string) {
+    await this.init();
+    const { rows } = await this.client.execute({
+      sql: "SELECT task FROM a2a_tasks WHERE context_id = ? ORDER BY created_at, rowid",
+      args: [contextId],
+    });
+    return rows.map((row) => JSON.parse(row.task as string) as Task);
+  }
+
+  async getTransitions(taskId: string) {
+    await this.init();
+    const { rows } = await this.client.execute({
+      sql: "SELECT status FROM a2a_task_transitions WHERE task_id = ? ORDER BY rowid",
+      args: [taskId],
+    });
+    return rows.map((row) => JSON.parse(row.status as string) as TaskStatus);
+  }
+}
+
+export const taskStore: A2ATaskStore = new LibSQLTaskStore({
+  client: libsqlClient,
+});
@@ -0,0 +1,254 @@
+import { MastraA2AError, type Message, type Part, type Task, type TaskState } from "@mastra/core/a2a";
+import { randomUUID } from "crypto";
+import { createSSEResponse } from "./sse";
+import { validated, type MethodContext, type MethodHandler } from "./handler";
+import {
+  taskIdParamsSchema,
+  taskPushNotificationConfigSchema,
+  taskQueryParamsSchema,
+  type A2AMessage,
+  type MessageSendParams,
+  type TaskIdParams,
+  type TaskPushNotificationConfig,
+  type TaskQueryParams,
+} from "./schemas";
+import { canTransition, isTerminal, taskStore } from "./task-store";
+import {
+  assertCallbackAllowed,
+  notifyTaskUpdate,
+  pushConfigStore,
+} from "./push-notifications";
+import {
+  abortTaskRun,
+  isTaskRunning,
+  publishTaskEvent,
+  subscribeToTask,
+} from "./task-events";
+import { setPendingWorkflow, type WorkflowSuspension } from "./workflow-runs";
+
+export function agentMessage(text: string, taskId: string, contextId: string): Message {
+  return {
+    kind: "message",
+    role: "agent",
+    parts: [{ kind: "text", text }],
+    messageId: randomUUID(),
+    taskId,
+    contextId,
+  };
+}
+
+/**
+ * Records the incoming message as a new `submitted` task, or appends it to a
+ * task that is still open. Finished tasks are never reopened: a follow-up to
+ * one starts a fresh task in the same context. A message that names no task
+ * answers the context's task waiting for input, if there is one, so clients
+ * that only keep the context can still reply.
+ *
+ * `prepare` turns the messages into whatever the route runs on, and throws if
+ * they can't be used; it runs before anything is saved, as does the check of
+ * the push callback URL. It is given the open task the messages continue, if
+ * any.
+ */
+export async function openTask<Input>(
+  params: MessageSendParams,
+  prepare: (messages: A2AMessage[], existing: Task | null) => Input
+) {
+  const { message, messages, contextId, taskId } = params;
+  const messagesList: A2AMessage[] = message ? [message] : (messages ?? []);
+
+  const givenContextId = contextId || message?.contextId;
+  const waiting =
+    !(taskId || message?.taskId) && givenContextId
+      ? (await taskStore.listTasks(givenContextId))
+          .filter((candidate) => candidate.status.state === "input-required")
+          .at(-1)
+      : undefined;
+
+  const requestedId: string | undefined = taskId || message?.taskId || waiting?.id;
+  if (requestedId && isTaskRunning(requestedId)) {
+    throw MastraA2AError.invalidRequest(`Task '${requestedId}' is still running`);
+  }
+
+  const found = requestedId ? await taskStore.getTask(requestedId) : null;
+  const existing = found && !isTerminal(found) ? found : null;
+  const input = prepare(messagesList, existing);
+  const pushNotificationConfig = params.configuration?.pushNotificationConfig;
+  if (pushNotificationConfig) await assertCallbackAllowed(pushNotificationConfig);
+  const id = found && !existing ? randomUUID() : requestedId || randomUUID();
+
+  const resolvedContextId: string = givenContextId || found?.contextId || randomUUID();
+  const task: Task = {
+    id,
+    contextId: resolvedContextId,
+    ...(existing?.metadata && { metadata: existing.metadata }),
+    status: existing?.status ?? {
+      state: "submitted",
+      timestamp: new Date().toISOString(),
+    },
+    artifacts: existing?.artifacts ?? [],
+    history: [
+      ...(existing?.history ?? []),
+      ...messagesList.map((msg) => ({
+        kind: "message" as const,
+        role: msg.role,
+        // Telex's array-valued data parts are kept as sent
+        parts: msg.parts as Part[],
+        messageId: msg.messageId || randomUUID(),
+        taskId: id,
+        contextId: resolvedContextId,
+      })),
+    ],
+    kind: "task",
+  };
+  await taskStore.saveTask(task);
+
+  if (pushNotificationConfig) {
+    await pushConfigStore.saveConfig(task.id, pushNotificationConfig);
+  }
+
+  return { task, input };
+}
+
+/**
+ * Moves a task to a new lifecycle state and pushes it to the task's callback,
+ * if one is registered. If the stored task can no longer make that move (e.g.
+ * it was canceled meanwhile) the stored task is returned as is.
+ */
+export async function moveTask(task: Task, state: TaskState, text?: string) {
+  const latest = await taskStore.getTask(task.id);
+  if (latest && latest.status.state !== state && !canTransition(latest.status.state, state)) {
+    return latest;
+  }
+
+  const statusMessage =
+    text === undefined ? undefined : agentMessage(text, task.id, task.contextId);
+  const moved: Task = {
+    ...task,
+    status: {
+      state,
+      timestamp: new Date().toISOString(),
+      ...(statusMessage && { message: statusMessage }),
+    },
+    history: statusMessage
+      ? [...(task.history ?? []), statusMessage]
+      : task.history,
+  };
+  await taskStore.saveTask(moved);
+  if (latest?.status.state !== state) void notifyTaskUpdate(moved);
+  return moved;
+}
+
+// Parks a task until the user answers the question a workflow step asked.
+export async function askForInput(task: Task, suspension: WorkflowSuspension) {
+  setPendingWorkflow(task, suspension);
+  return moveTask(task, "input-required", suspension.question);
+}
+
+async function findTask(params: TaskIdParams) {
+  const task = await taskStore.getTask(params.id);
+  if (!task) throw MastraA2AError.taskNotFound(params.id);
+  return task;
+}
+
+async function getTask({ params }: MethodContext<{}, TaskQueryParams>) {
+  const task = await findTask(params);
+  const { historyLength } = params;
+  if (historyLength !== undefined && task.history) {
+    task.history = historyLength > 0 ? task.history.slice(-historyLength) : [];
+  }
+  return task;
+}
+
+async function cancelTask({ params }: MethodContext<{}, TaskIdParams>) {
+  const task = await findTask(params);
+  if (!canTransition(task.status.state, "canceled")) {
+    throw MastraA2AError.taskNotCancelable(task.id);
+  }
+
+  const canceled = await moveTask(task, "canceled");
+  abortTaskRun(task.id);
+  publishTaskEvent({
+    kind: "status-update",
+    taskId: task.id,
+    contextId: task.contextId,
+    status: canceled.status,
+    final: true,
+  });
+  return canceled;
+}
+
+// Replays a task's current state over SSE, then follows its live updates
+// until a final status arrives.
+async function resubscribeTask({ requestId, params }: MethodContext<{}, TaskIdParams>) {
+  const { id: taskId } = await findTask(params);
+
+  return createSSEResponse(requestId, async (send) => {
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    const unsubscribe = subscribeToTask(taskId, (event) => {
+      send(event);
+      if (event.kind === "status-update" && event.final) finish();
+    });
+
+    try {
+      const task = (await taskStore.getTask(taskId))!;
+      for (const artifact of task.artifacts ?? []) {
+        send({
+          kind: "artifact-update",
+          taskId,
+          contextId: task.contextId,
+          artifact,
+          append: false,
+          lastChunk: true,
+        });
+      }
+
+      const final = isTerminal(task) || !isTaskRunning(taskId);
+      send({
+        kind: "status-update",
+        taskId,
+        contextId: task.contextId,
+        status: task.status,
+        final,
+      });
+      if (!final) await finished;
+    } finally {
+      unsubscribe();
+    }
+  });
+}
+
+async function setPushNotificationConfig({
+  params,
+}: MethodContext<{}, TaskPushNotificationConfig>) {
+  await findTask({ id: params.taskId });
+  await assertCallbackAllowed(params.pushNotificationConfig);
+  await pushConfigStore.saveConfig(params.taskId, params.pushNotificationConfig);
+  return params;
+}
+
+async function getPushNotificationConfig({ params }: MethodContext<{}, TaskIdParams>) {
+  const task = await findTask(params);
+  const pushNotificationConfig = await pushConfigStore.getConfig(task.id);
+  if (!pushNotificationConfig) {
+    throw MastraA2AError.invalidParams(
+      `Invalid params: task '${task.id}' has no push notification config`
+    );
+  }
+  return { taskId: task.id, pushNotificationConfig };
+}
+
+// The `tasks/*` methods, which work the same whatever ran the task.
+export const taskMethods: Record<string, MethodHandler> = {
+  "tasks/get": validated(taskQueryParamsSchema, getTask),
+  "tasks/cancel": validated(taskIdParamsSchema, cancelTask),
+  "tasks/resubscribe": validated(taskIdParamsSchema, resubscribeTask),
+  "tasks/pushNotificationConfig/set": validated(
+    taskPushNotificationConfigSchema,
+    setPushNotificationConfig
+  ),
+  "tasks/pushNotificationConfig/get": validated(
+    taskIdParamsSchema,
+    getPushNotificationConfig
+  ),
+};
@@ -0,0 +1,101 @@
+import { serve } from "@hono/node-server";
+import { Agent } from "@mastra/core/agent";
+import type { LanguageModel } from "@mastra/core/llm";
+import type { Mastra } from "@mastra/core/mastra";
+import type { ApiRoute } from "@mastra/core/server";
+import { Hono } from "hono";
+import type { AddressInfo } from "net";
+
+// Helpers for tests that call the A2A routes over HTTP, so they run without a
+// model provider or `mastra dev`.
+
+type TextModelOptions = {
+  /** Rejects every call with this message instead of answering */
+  fail?: string;
+  /** Waits this long before each text chunk */
+  delayMs?: number;
+};
+
+/**
+ * A model that answers every prompt with `text`, streamed one word at a time,
+ * or that fails every call when given `fail`.
+ */
+export function textModel(text: string, { fail, delayMs = 0 }: TextModelOptions = {}): LanguageModel {
+  const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+  const words = text.split(/(?<= )/);
+
+  return {
+    specificationVersion: "v2",
+    provider: "test",
+    modelId: "text",
+    supportedUrls: {},
+    doGenerate: async () => {
+      if (fail) throw new Error(fail);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+    doStream: async ({ abortSignal }) => {
+      if (fail) throw new Error(fail);
+      return {
+        stream: new ReadableStream({
+          async start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "text-1" });
+            for (const word of words) {
+              if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+              if (abortSignal?.aborted) {
+                controller.error(abortSignal.reason);
+                return;
+              }
+              controller.enqueue({ type: "text-delta", id: "text-1", delta: word });
+            }
+            controller.enqueue({ type: "text-end", id: "text-1" });
+            controller.enqueue({ type: "finish", finishReason: "stop", usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+/** An agent on `model` that doesn't retry failed model calls. */
+export function testAgent(model: LanguageModel, name = "Test") {
+  return new Agent({
+    name,
+    instructions: "Answer the user.",
+    model,
+    defaultVNextStreamOptions: { modelSettings: { maxRetries: 0 } },
+  });
+}
+
+/**
+ * Serves routes the way `mastra dev` does: a Hono app with the Mastra instance
+ * in the request context, on a free local port.
+ */
+export async function serveRoutes(mastra: Mastra, routes: ApiRoute[]) {
+  const app = new Hono<{ Variables: { mastra: Mastra } }>();
+  app.use(async (c, next) => {
+    c.set("mastra", mastra);
+    await next();
+  });
+  for (const route of routes) {
+    if (!("handler" in route)) throw new Error(`Route ${route.path} has no handler`);
+    app.on(route.method, route.path, route.handler);
+  }
+
+  const server = await new Promise<ReturnType<typeof serve>>((resolve) => {
+    const started = serve({ fetch: app.fetch, hostname: "127.0.0.1", port: 0 }, () =>
+      resolve(started)
+    );
+  });
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,173 @@
+import type { Message, Task } from "@mastra/core/a2a";
+import type { Run, Workflow, WorkflowStreamEvent } from "@mastra/core/workflows";
+import type { ToolResultChunk } from "./parts";
+
+/** A suspended workflow run that an `input-required` task is waiting on. */
+export type PendingWorkflow = {
+  /** Key of the workflow on the agent or Mastra, e.g. `telexAgentWorkflow` */
+  workflow: string;
+  runId: string;
+  /** Path of the suspended step */
+  step: string[];
+};
+
+export type WorkflowSuspension = PendingWorkflow & {
+  /** What to ask the user: the step's `suspend({ question })` */
+  question: string;
+};
+
+// Mastra exposes each of an agent's workflows as a tool named `workflow-<key>`.
+const WORKFLOW_TOOL_PREFIX = "workflow-";
+// Where a task keeps its pending run, so it outlives the process.
+const METADATA_KEY = "pendingWorkflow";
+
+export type WorkflowOutcome = { suspended: WorkflowSuspension } | { result: unknown };
+
+export type RunOptions = {
+  /** Called with each step event of the run, e.g. `workflow-step-result` */
+  watch?: (event: WorkflowStreamEvent) => void;
+  /** Cancels the run when aborted */
+  signal?: AbortSignal;
+};
+
+// The fields of a workflow result that say where it suspended.
+type SuspendedResult = {
+  status?: unknown;
+  suspended?: string[][];
+  steps?: Record<string, { suspendPayload?: { question?: unknown } } | undefined>;
+};
+
+function suspension(workflow: string, runId: string, value: unknown): WorkflowSuspension | null {
+  const result = value as SuspendedResult | null | undefined;
+  if (result?.status !== "suspended" || !runId) return null;
+  const [step] = result.suspended ?? [];
+  if (!step) return null;
+
+  const payload = result.steps?.[step[0]]?.suspendPayload;
+  return {
+    workflow,
+    runId,
+    step,
+    question:
+      typeof payload?.question === "string"
+        ? payload.question
+        : "I need a bit more information to continue. Could you tell me more?",
+  };
+}
+
+/** The first workflow the agent ran as a tool that suspended, if any. */
+export function findSuspendedWorkflow(
+  toolResults: ToolResultChunk[]
+): WorkflowSuspension | null {
+  for (const toolResult of toolResults) {
+    const { toolName, result } = toolResult.payload;
+    if (!toolName.startsWith(WORKFLOW_TOOL_PREFIX)) continue;
+    if (typeof result !== "object" || result === null) continue;
+
+    const { runId, result: runResult } = result as { runId?: unknown; result?: unknown };
+    const found = suspension(
+      toolName.slice(WORKFLOW_TOOL_PREFIX.length),
+      typeof runId === "string" ? runId : "",
+      runResult
+    );
+    if (found) return found;
+  }
+  return null;
+}
+
+export function pendingWorkflow(task: Task): PendingWorkflow | undefined {
+  return task.metadata?.[METADATA_KEY] as PendingWorkflow | undefined;
+}
+
+/** Records the run a task waits on, or clears it. */
+export function setPendingWorkflow(task: Task, pending?: PendingWorkflow) {
+  const { [METADATA_KEY]: _previous, ...rest } = task.metadata ?? {};
+  if (pending) {
+    const { workflow, runId, step } = pending;
+    task.metadata = { ...rest, [METADATA_KEY]: { workflow, runId, step } };
+  } else {
+    task.metadata = Object.keys(rest).length > 0 ? rest : undefined;
+  }
+}
+
+// The user's reply as resume data: its text as `answer`, plus the fields of a
+// data part for clients that answer the step's questions directly.
+function resumeData(message?: Message) {
+  const parts = message?.parts ?? [];
+  const answer = parts
+    .flatMap((part) => (part.kind === "text" ? [part.text] : []))
+    .join("\n");
+  const data = parts.find((part) => part.kind === "data")?.data;
+  return {
+    ...(data && !Array.isArray(data) && data),
+    ...(answer && { answer }),
+  };
+}
+
+// Mastra types a failed run's error as an Error but hands back its stack
+// trace as a string; either way the message is the first line.
+function failureMessage(error: unknown) {
+  if (error instanceof Error) return error.message;
+  return String(error).split("\n")[0].replace(/^Error: /, "");
+}
+
+// Creates the run (or loads it, given a `runId`), watches it while `go` drives
+// it, and turns its result into an outcome.
+async function execute(
+  workflow: Workflow,
+  name: string,
+  runId: string | undefined,
+  options: RunOptions,
+  go: (run: Run) => ReturnType<Run["start"]>
+): Promise<WorkflowOutcome> {
+  const run = await workflow.createRunAsync(runId ? { runId } : undefined);
+  const unwatch = options.watch ? run.watch(options.watch, "watch-v2") : () => {};
+  const cancel = () => void run.cancel();
+  options.signal?.addEventListener("abort", cancel);
+
+  try {
+    const result = await go(run);
+    if (result.status === "suspended") {
+      return { suspended: suspension(name, run.runId, result)! };
+    }
+    if (result.status !== "success") {
+      const reason = result.status === "failed" ? `: ${failureMessage(result.error)}` : "";
+      throw new Error(`Workflow '${name}' ${result.status}${reason}`);
+    }
+    return { result: result.result };
+  } finally {
+    options.signal?.removeEventListener("abort", cancel);
+    unwatch();
+  }
+}
+
+/**
+ * Runs a workflow to its end or its first suspended step. Resolves to the
+ * step's question if it suspends, or to the workflow's result.
+ */
+export async function startWorkflow(
+  workflow: Workflow,
+  name: string,
+  inputData: unknown,
+  options: RunOptions = {}
+): Promise<WorkflowOutcome> {
+  return execute(workflow, name, undefined, options, (run) => run.start({ inputData }));
+}
+
+/**
+ * Resumes the run a task is waiting on with the user's reply. Resolves to the
+ * next question if the run suspends again, or to the workflow's result.
+ */
+export async function resumeWorkflow(
+  workflow: Workflow | undefined,
+  pending: PendingWorkflow,
+  reply?: Message,
+  options: RunOptions = {}
+): Promise<WorkflowOutcome> {
+  if (!workflow) {
+    throw new Error(`Workflow '${pending.workflow}' is no longer available`);
+  }
+  return execute(workflow, pending.workflow, pending.runId, options, (run) =>
+    run.resume({ step: pending.step, resumeData: resumeData(reply) })
+  );
+}
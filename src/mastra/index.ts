@@ -1,8 +1,13 @@
 import { Mastra } from "@mastra/core/mastra";
 import { PinoLogger } from "@mastra/loggers";
-import { LibSQLStore } from "@mastra/libsql";
 import { telexAgentWorkflow } from "./workflows/telex-workflow";
+import { buildAndRegisterWorkflow } from "./workflows/build-and-register-workflow";
+import { scaffoldWorkflow } from "./workflows/scaffold-workflow";
 import { telexAgentBuilder } from "./agents/telex-agent-builder";
+import { mastraExpert } from "./agents/mastra-expert";
+import { pythonExpert } from "./agents/python-expert";
+import { deploymentExpert } from "./agents/deployment-expert";
+import { debuggingExpert } from "./agents/debugging-expert";
 import {
   clarityScorer,
   correctnessScorer,
@@ -10,19 +15,31 @@ import {
   completenessScorer,
 } from "./scorers/telex-scorer";
 import { a2aAgentRoute } from "./routes/a2a-agent-route";
+import { a2aWorkflowRoute } from "./routes/a2a-workflow-route";
+import {
+  agentCardRoute,
+  agentCardsRoute,
+  defaultAgentCardRoute,
+} from "./routes/agent-card-route";
+import { storage, vectorStore } from "./storage";
 
 export const mastra = new Mastra({
-  workflows: { telexAgentWorkflow },
-  agents: { telexAgentBuilder },
+  workflows: { telexAgentWorkflow, buildAndRegisterWorkflow, scaffoldWorkflow },
+  agents: {
+    telexAgentBuilder,
+    mastraExpert,
+    pythonExpert,
+    deploymentExpert,
+    debuggingExpert,
+  },
   scorers: {
     clarityScorer,
     correctnessScorer,
     engagementScorer,
     completenessScorer,
   },
-  storage: new LibSQLStore({
-    url: ":memory:",
-  }),
+  storage,
+  vectors: { guides: vectorStore },
   logger: new PinoLogger({
     name: "Mastra-Telex",
     level: "info",
@@ -38,7 +55,13 @@ export const mastra = new Mastra({
       openAPIDocs: true,
       swaggerUI: true,
     },
-    apiRoutes: [a2aAgentRoute],
+    apiRoutes: [
+      a2aAgentRoute,
+      a2aWorkflowRoute,
+      defaultAgentCardRoute,
+      agentCardRoute,
+      agentCardsRoute,
+    ],
   },
 });
 
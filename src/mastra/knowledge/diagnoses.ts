@@ -0,0 +1,107 @@
+import { readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import { parse } from "yaml";
+import { z } from "zod";
+import { guideIndex, resolvePublicDir, type GuideSectionRef } from "./guides";
+
+export const diagnosisAreas = ["a2a", "mastra", "telex", "node", "libsql", "deploy"] as const;
+
+export const diagnosisFileSchema = z.object({
+  title: z.string(),
+  area: z.enum(diagnosisAreas),
+  /** Case-insensitive regular expressions matched against the pasted text */
+  patterns: z.array(z.string()).min(1),
+  cause: z.string(),
+  fix: z.array(z.string()).min(1),
+  guide: z.object({ id: z.string(), section: z.string() }).optional(),
+});
+
+export type Diagnosis = Omit<z.infer<typeof diagnosisFileSchema>, "patterns" | "guide"> & {
+  /** File name without `.yaml` */
+  id: string;
+  patterns: RegExp[];
+  guide?: GuideSectionRef;
+};
+
+export type DiagnosisMatch = {
+  diagnosis: Diagnosis;
+  /** Text each matching pattern found, in pattern order */
+  matched: string[];
+  /** 1-based line of the first match */
+  line: number;
+};
+
+/** Parses one catalog entry, compiling its patterns and resolving its guide section. */
+export function parseDiagnosis(id: string, source: string): Diagnosis {
+  const parsed = diagnosisFileSchema.safeParse(parse(source));
+  if (!parsed.success) {
+    throw new Error(`Diagnosis '${id}' is invalid:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const { patterns, guide, ...rest } = parsed.data;
+  return {
+    id,
+    ...rest,
+    patterns: patterns.map((pattern) => {
+      try {
+        return new RegExp(pattern, "im");
+      } catch (error) {
+        throw new Error(`Diagnosis '${id}' has a bad pattern /${pattern}/: ${(error as Error).message}`);
+      }
+    }),
+    ...(guide && { guide: resolveGuide(id, guide) }),
+  };
+}
+
+function resolveGuide(id: string, guide: { id: string; section: string }) {
+  try {
+    return guideIndex.section(guide.id, guide.section);
+  } catch (error) {
+    throw new Error(`Diagnosis '${id}' links a missing guide section: ${(error as Error).message}`);
+  }
+}
+
+export class DiagnosisCatalog {
+  constructor(private diagnoses: Diagnosis[]) {}
+
+  all() {
+    return this.diagnoses;
+  }
+
+  /**
+   * Entries whose patterns match the text, those matching the most patterns
+   * first. Ties go to the longer matched text (`Agent 'x' not found` says more
+   * than `-32602`), then catalog order.
+   */
+  match(text: string): DiagnosisMatch[] {
+    const matches: DiagnosisMatch[] = [];
+    for (const diagnosis of this.diagnoses) {
+      const found = diagnosis.patterns
+        .map((pattern) => pattern.exec(text))
+        .filter((result): result is RegExpExecArray => result !== null);
+      if (found.length === 0) continue;
+
+      const first = Math.min(...found.map((result) => result.index));
+      matches.push({
+        diagnosis,
+        matched: found.map((result) => result[0]),
+        line: text.slice(0, first).split("\n").length,
+      });
+    }
+    const length = (match: DiagnosisMatch) => match.matched.join("").length;
+    return matches.sort(
+      (a, b) => b.matched.length - a.matched.length || length(b) - length(a)
+    );
+  }
+}
+
+export function loadDiagnoses(dir = resolvePublicDir("diagnoses", process.env.DIAGNOSES_DIR)) {
+  const diagnoses = readdirSync(dir)
+    .filter((file) => file.endsWith(".yaml"))
+    .sort()
+    .map((file) => parseDiagnosis(basename(file, ".yaml"), readFileSync(join(dir, file), "utf8")));
+  return new DiagnosisCatalog(diagnoses);
+}
+
+// Loaded once at startup, like the guides.
+export const diagnosisCatalog = loadDiagnoses();
@@ -0,0 +1,78 @@
+import { embedV2 } from "@mastra/core/vector";
+import { tokenize } from "./search";
+
+/** Turns text into fixed-size vectors for the guide vector index. */
+export interface Embedder {
+  /** Stored with the index, so vectors from different embedders never mix */
+  id: string;
+  dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// 32-bit FNV-1a
+function hash(feature: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic, offline embedder: hashes each word and its character n-grams
+ * into a signed bag-of-features vector, then L2-normalizes it. It captures
+ * spelling overlap rather than meaning ("deploy" ~ "deployment"), which is
+ * enough for tests and for running without an embedding provider.
+ */
+export function hashedNgramEmbedder({
+  dimension = 512,
+  n = 3,
+}: { dimension?: number; n?: number } = {}): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimension).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      vector[h % dimension] += h & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`, 1);
+      const padded = `<${word}>`;
+      for (let i = 0; i + n <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + n)}`, 0.5);
+      }
+    }
+
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((value) => value / norm);
+  };
+
+  return {
+    id: `hashed-ngram-${n}-${dimension}`,
+    dimension,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+type EmbeddingModel = Parameters<typeof embedV2>[0]["model"];
+
+/**
+ * Adapts an AI SDK embedding model, e.g. `openai.embedding("text-embedding-3-small")`
+ * with dimension 1536. `dimension` must match what the model returns.
+ */
+export function modelEmbedder(model: EmbeddingModel, dimension: number): Embedder {
+  const modelId = typeof model === "string" ? model : model.modelId;
+  return {
+    id: `model:${modelId}`,
+    dimension,
+    async embed(texts) {
+      const embeddings: number[][] = [];
+      for (const value of texts) {
+        const { embedding } = await embedV2({ model, value });
+        embeddings.push(embedding);
+      }
+      return embeddings;
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { checkGuideExamples } from "./guide-examples";
+import { loadGuides, parseGuide } from "./guides";
+
+const guides = loadGuides().all();
+
+describe("guide examples", () => {
+  it.each(guides.map((guide) => [guide.id, guide] as const))(
+    "%s.md only shows requests the A2A route accepts",
+    (_id, guide) => {
+      expect(checkGuideExamples(guide)).toEqual([]);
+    }
+  );
+
+  it("reports an example the route would reject", () => {
+    const guide = parseGuide(
+      "broken",
+      [
+        "---",
+        "title: Broken",
+        "category: a2a-protocol",
+        "---",
+        "## Sending",
+        "```json",
+        '{ "jsonrpc": "2.0", "id": 1, "method": "message/send", "params": {} }',
+        "```",
+      ].join("\n")
+    );
+
+    expect(checkGuideExamples(guide)).toEqual([
+      expect.stringMatching(/^broken\.md > Sending \(json\): params\.message: /),
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  a2aParamsSchemas,
+  a2aResponseSchemas,
+  formatIssues,
+  jsonRpcErrorResponseSchema,
+  jsonRpcRequestSchema,
+  type A2AMethod,
+} from "../a2a/schemas";
+import { telexNodeSchema, validateWorkflow } from "../telex/workflow";
+import type { Guide } from "./guides";
+
+/** A JSON body shown in a guide: a ```json block or the `-d '...'` of a curl. */
+export type GuideExample = {
+  heading: string;
+  source: "json" | "curl";
+  body: string;
+  /**
+   * Error code a curl example is meant to get back, taken from a comment right
+   * above it such as `# Unknown methods get a -32601 error`
+   */
+  expectedError?: number;
+};
+
+type Problem = { path: string; message: string };
+
+// What `a2aAgentRoute` would make of a body: the error code it would answer
+// with (none when valid) and the failing paths.
+type Verdict = { code?: number; problems: Problem[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Collects the JSON examples in a guide body, with the heading each sits under. */
+export function extractExamples(content: string): GuideExample[] {
+  const examples: GuideExample[] = [];
+  let heading = "";
+  let fence: { lang: string; lines: string[] } | null = null;
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("```")) {
+      if (!fence) {
+        fence = { lang: trimmed.slice(3).trim(), lines: [] };
+        continue;
+      }
+      const body = fence.lines.join("\n");
+      if (fence.lang === "json") {
+        examples.push({ heading, source: "json", body });
+      } else if (fence.lang === "bash") {
+        examples.push(...curlExamples(body).map((curl) => ({ heading, ...curl })));
+      }
+      fence = null;
+      continue;
+    }
+
+    if (fence) {
+      fence.lines.push(line);
+      continue;
+    }
+    const match = line.match(/^#{2,3}\s+(.+)$/);
+    if (match) heading = match[1].trim();
+  }
+  return examples;
+}
+
+// Request bodies of curl calls to an A2A endpoint in a shell snippet.
+function curlExamples(script: string) {
+  const examples: Omit<GuideExample, "heading">[] = [];
+  const commands = script.split(/^(?=curl\s)/m);
+
+  for (let i = 0; i < commands.length; i++) {
+    const body = commands[i].match(/^curl\s[\s\S]*?-d\s+'([^']*)'/)?.[1];
+    if (body === undefined || !commands[i].includes("/a2a/")) continue;
+
+    const comment = i > 0 ? (commands[i - 1].trimEnd().split("\n").pop() ?? "") : "";
+    const expected = comment.match(/^\s*#.*?(-32\d{3})/)?.[1];
+    examples.push({
+      source: "curl",
+      body,
+      ...(expected && { expectedError: Number(expected) }),
+    });
+  }
+  return examples;
+}
+
+// Workflow JSON (a whole workflow, or one of its nodes) is shown alongside A2A
+// messages; anything else in a json block is taken for an A2A message.
+function isWorkflowJson(value: unknown) {
+  return isObject(value) && (Array.isArray(value.nodes) || typeof value.type === "string");
+}
+
+function checkRequest(value: unknown): Verdict {
+  const envelope = jsonRpcRequestSchema.safeParse(value);
+  if (!envelope.success) {
+    return { code: -32600, problems: formatIssues(envelope.error, "request") };
+  }
+
+  const { method, params } = envelope.data;
+  if (!Object.hasOwn(a2aParamsSchemas, method)) {
+    return {
+      code: -32601,
+      problems: [{ path: "request.method", message: `unknown method '${method}'` }],
+    };
+  }
+  const parsed = a2aParamsSchemas[method as A2AMethod].safeParse(params ?? {});
+  return parsed.success
+    ? { problems: [] }
+    : { code: -32602, problems: formatIssues(parsed.error, "params") };
+}
+
+// Success responses are checked against the method of the request with the
+// same id earlier in the guide; without one, any method's result will do.
+function checkResponse(value: Record<string, unknown>, method?: A2AMethod): Verdict {
+  if ("error" in value) {
+    const parsed = jsonRpcErrorResponseSchema.safeParse(value);
+    return { problems: parsed.success ? [] : formatIssues(parsed.error, "response") };
+  }
+
+  const methods = method ? [method] : (Object.keys(a2aResponseSchemas) as A2AMethod[]);
+  const results = methods.map((m) => a2aResponseSchemas[m].safeParse(value));
+  if (results.some((result) => result.success)) return { problems: [] };
+  return { problems: formatIssues(results[0].error!, "response") };
+}
+
+/**
+ * Checks every A2A example in a guide against the schemas `a2aAgentRoute`
+ * validates with. JSON blocks must be valid JSON-RPC requests or responses,
+ * except Telex workflow JSON, which must pass the workflow validator. Curl
+ * bodies must be valid requests, unless a comment says which error they get,
+ * in which case they must get exactly that one.
+ *
+ * Returns one line per problem, e.g.
+ * `go.md > Testing Your Agent: params.message.parts[0].kind: Invalid input`.
+ */
+export function checkGuideExamples(guide: Guide): string[] {
+  const problems: string[] = [];
+  const requestMethods = new Map<unknown, A2AMethod>();
+
+  for (const example of extractExamples(guide.content)) {
+    const where = `${guide.id}.md > ${example.heading || guide.title} (${example.source})`;
+    const report = (verdictProblems: Problem[]) =>
+      verdictProblems.forEach(({ path, message }) =>
+        problems.push(`${where}: ${path}: ${message}`)
+      );
+
+    let value: unknown;
+    try {
+      value = JSON.parse(example.body);
+    } catch (error) {
+      if (example.expectedError !== -32700) {
+        problems.push(`${where}: not valid JSON (${(error as Error).message})`);
+      }
+      continue;
+    }
+    if (example.source === "json" && !(isObject(value) && "jsonrpc" in value)) {
+      if (!isWorkflowJson(value)) {
+        problems.push(
+          `${where}: neither a JSON-RPC message (no "jsonrpc" field) nor a Telex workflow or node`
+        );
+      } else if (Array.isArray((value as Record<string, unknown>).nodes)) {
+        validateWorkflow(example.body)
+          .issues.filter((issue) => issue.severity === "error")
+          .forEach(({ path, message }) => problems.push(`${where}: ${path}: ${message}`));
+      } else {
+        const parsed = telexNodeSchema.safeParse(value);
+        if (!parsed.success) report(formatIssues(parsed.error, "node"));
+      }
+      continue;
+    }
+
+    if (example.source === "curl" || (isObject(value) && "method" in value)) {
+      const verdict = checkRequest(value);
+      if (verdict.code !== example.expectedError) {
+        if (example.expectedError) {
+          problems.push(
+            `${where}: expected error ${example.expectedError} but the route would ${
+              verdict.code ? `answer ${verdict.code}` : "accept it"
+            }`
+          );
+        } else {
+          report(verdict.problems);
+        }
+      }
+      if (!verdict.code && isObject(value)) {
+        requestMethods.set(value.id, value.method as A2AMethod);
+      }
+      continue;
+    }
+
+    const response = value as Record<string, unknown>;
+    report(checkResponse(response, requestMethods.get(response.id)).problems);
+  }
+  return problems;
+}
@@ -0,0 +1,167 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import { fileURLToPath } from "url";
+import { PinoLogger } from "@mastra/loggers";
+import { parse } from "yaml";
+import { z } from "zod";
+import { checkGuideExamples } from "./guide-examples";
+
+const logger = new PinoLogger({ name: "Guides", level: "info" });
+
+export const guideCategories = [
+  "mastra",
+  "integration",
+  "workflow",
+  "general",
+  "a2a-protocol",
+] as const;
+
+export const guideResourceSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  description: z.string(),
+});
+
+export const guideFrontmatterSchema = z.object({
+  title: z.string(),
+  category: z.enum(guideCategories),
+  languages: z.array(z.string()).default([]),
+  keywords: z.array(z.string()).default([]),
+  resources: z.array(guideResourceSchema).optional(),
+});
+
+export type Guide = z.infer<typeof guideFrontmatterSchema> & {
+  /** File name without `.md` */
+  id: string;
+  content: string;
+  example?: string;
+};
+
+export type GuideSectionRef = { id: string; heading: string; title: string };
+
+// Everything after this line in a guide is returned as its `example`.
+const EXAMPLE_MARKER = "<!-- example -->";
+
+/** Parses a guide: YAML frontmatter between `---` lines, then the markdown body. */
+export function parseGuide(id: string, source: string): Guide {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) throw new Error(`Guide '${id}' is missing its frontmatter`);
+
+  const frontmatter = guideFrontmatterSchema.safeParse(parse(match[1]));
+  if (!frontmatter.success) {
+    throw new Error(
+      `Guide '${id}' has invalid frontmatter:\n${z.prettifyError(frontmatter.error)}`
+    );
+  }
+
+  const [content, example] = match[2].split(EXAMPLE_MARKER);
+  return {
+    id,
+    ...frontmatter.data,
+    languages: frontmatter.data.languages.map((language) => language.toLowerCase()),
+    content: content.trim(),
+    ...(example?.trim() && { example: example.trim() }),
+  };
+}
+
+// Data files live in src/mastra/public/<name>, which `mastra build` copies
+// next to the bundled server. `override` (an env var) replaces the lookup.
+export function resolvePublicDir(name: string, override?: string) {
+  const candidates = [
+    override,
+    fileURLToPath(new URL(`./${name}`, import.meta.url)),
+    join(process.cwd(), name),
+    join(process.cwd(), `src/mastra/public/${name}`),
+  ].filter((dir): dir is string => Boolean(dir));
+
+  const dir = candidates.find((candidate) => existsSync(candidate));
+  if (!dir) {
+    throw new Error(`${name} directory not found; looked in ${candidates.join(", ")}`);
+  }
+  return dir;
+}
+
+export class GuideIndex {
+  private byId = new Map<string, Guide>();
+  private byLanguage = new Map<string, Guide[]>();
+
+  constructor(guides: Guide[]) {
+    for (const guide of guides) {
+      this.byId.set(guide.id, guide);
+      for (const language of guide.languages) {
+        this.byLanguage.set(language, [...(this.byLanguage.get(language) ?? []), guide]);
+      }
+    }
+  }
+
+  all() {
+    return [...this.byId.values()];
+  }
+
+  get(id: string) {
+    const guide = this.byId.get(id);
+    if (!guide) throw new Error(`Guide '${id}' not found`);
+    return guide;
+  }
+
+  /**
+   * A reference to one `##`/`###` section of a guide, for tools that point
+   * users at it; throws if the guide has no such heading.
+   */
+  section(id: string, heading: string): GuideSectionRef {
+    const guide = this.get(id);
+    const headings = [...guide.content.matchAll(/^#{2,3}\s+(.+?)\s*$/gm)].map((match) => match[1]);
+    if (!headings.includes(heading)) {
+      throw new Error(`Guide '${id}' has no section '${heading}'`);
+    }
+    return { id, heading, title: guide.title };
+  }
+
+  forLanguage(language: string) {
+    return this.byLanguage.get(language.trim().toLowerCase()) ?? [];
+  }
+
+  /** Languages with at least one guide, including aliases like `golang` */
+  languages() {
+    return [...this.byLanguage.keys()].sort();
+  }
+}
+
+export function loadGuides(dir = resolvePublicDir("guides", process.env.GUIDES_DIR)) {
+  const guides = readdirSync(dir)
+    .filter((file) => file.endsWith(".md"))
+    .sort()
+    .map((file) => parseGuide(basename(file, ".md"), readFileSync(join(dir, file), "utf8")));
+
+  // A guide teaching a request the route would reject is a bug, but one the
+  // test suite catches; the server still starts with the guides it has
+  const problems = guides.flatMap(checkGuideExamples);
+  if (problems.length > 0) {
+    logger.warn(`Guide examples do not match the A2A schemas:\n${problems.join("\n")}`);
+  }
+  return new GuideIndex(guides);
+}
+
+// Loaded once at startup; restart the server to pick up edited guides.
+export const guideIndex = loadGuides();
+
+// Fills the `{{language}}` and `{{Language}}` placeholders guides may use.
+export function fillPlaceholders(text: string, language = "") {
+  const name = language || "any language";
+  return text
+    .replaceAll("{{language}}", name)
+    .replaceAll("{{Language}}", name.replace(/\b\w/g, (c) => c.toUpperCase()));
+}
+
+// Shapes a guide as `telexGuideTool` output.
+export function renderGuide(guide: Guide, language = "") {
+  const fill = (text: string) => fillPlaceholders(text, language);
+
+  return {
+    title: fill(guide.title),
+    category: guide.category,
+    content: fill(guide.content),
+    ...(guide.example && { example: fill(guide.example) }),
+    ...(guide.resources && { resources: guide.resources }),
+  };
+}
@@ -0,0 +1,220 @@
+import { guideIndex, type Guide } from "./guides";
+
+export type GuideSection = {
+  /** `<guide id>#<heading slug>` */
+  id: string;
+  guide: Guide;
+  heading: string;
+  content: string;
+};
+
+export type SectionMatch = {
+  section: GuideSection;
+  score: number;
+};
+
+export type SearchOptions = {
+  /** Language the user works in; boosts guides written for it */
+  language?: string;
+  /** Category the caller expects; boosts guides in it */
+  category?: Guide["category"];
+  limit?: number;
+};
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Multipliers applied on top of the BM25 score.
+const LANGUAGE_BOOST = 1.5;
+const OTHER_LANGUAGE_PENALTY = 0.5;
+const CATEGORY_BOOST = 1.3;
+
+const STOP_WORDS = new Set(
+  "a an and are as at be but by can do does for from how i if in into is it its me my of on or our so that the their then this to up use using we what when where which who why will with you your".split(
+    " "
+  )
+);
+
+// Phrases written both ways in guides and questions.
+const PHRASES: [RegExp, string][] = [
+  [/\bset\s+up\b/g, "setup"],
+  [/\bsign\s+up\b/g, "signup"],
+  [/\blog\s+in\b/g, "login"],
+];
+
+/** Lowercases and splits text into terms, keeping names like `c#` and `a2a`. */
+export function tokenize(text: string) {
+  const normalized = PHRASES.reduce(
+    (current, [pattern, replacement]) => current.replace(pattern, replacement),
+    text.toLowerCase()
+  );
+  return (normalized.match(/[a-z0-9][a-z0-9#+]*/g) ?? [])
+    .filter((term) => !STOP_WORDS.has(term))
+    .map((term) =>
+      term.length > 3 && term.endsWith("s") && !term.endsWith("ss")
+        ? term.slice(0, -1)
+        : term
+    );
+}
+
+function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Splits a guide into sections at its `##`/`###` headings. Text before the
+ * first heading is filed under the guide title; `#` lines inside code blocks
+ * are left alone.
+ */
+export function splitSections(guide: Guide): GuideSection[] {
+  const sections: GuideSection[] = [];
+  let heading = guide.title;
+  let lines: string[] = [];
+  let inCode = false;
+
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    if (content) {
+      sections.push({
+        id: `${guide.id}#${slugify(heading)}`,
+        guide,
+        heading,
+        content,
+      });
+    }
+    lines = [];
+  };
+
+  for (const line of guide.content.split("\n")) {
+    if (line.trimStart().startsWith("```")) inCode = !inCode;
+    const match = !inCode && line.match(/^#{2,3}\s+(.+)$/);
+    if (match) {
+      flush();
+      heading = match[1].trim();
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+type IndexedSection = {
+  section: GuideSection;
+  termFrequencies: Map<string, number>;
+  length: number;
+};
+
+/**
+ * BM25 over guide sections. Each section is indexed with its guide's title and
+ * keywords and its own heading (counted twice, as they say what the section is
+ * about) plus its body. Runs entirely in memory.
+ */
+export class GuideSearchIndex {
+  private sections: IndexedSection[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+  private languages = new Set<string>();
+
+  constructor(guides: Guide[]) {
+    for (const guide of guides) {
+      guide.languages.forEach((language) => this.languages.add(language));
+
+      for (const section of splitSections(guide)) {
+        const label = [guide.title, ...guide.keywords, section.heading].join(" ");
+        const terms = [...tokenize(label), ...tokenize(label), ...tokenize(section.content)];
+
+        const termFrequencies = new Map<string, number>();
+        for (const term of terms) {
+          termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+        }
+        for (const term of termFrequencies.keys()) {
+          this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+        }
+        this.sections.push({ section, termFrequencies, length: terms.length });
+      }
+    }
+
+    this.averageLength =
+      this.sections.reduce((total, { length }) => total + length, 0) /
+      Math.max(this.sections.length, 1);
+  }
+
+  private idf(term: string) {
+    const n = this.sections.length;
+    const df = this.documentFrequencies.get(term) ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  // Languages the query is about: the one passed in plus any named in the query.
+  private queryLanguages(terms: string[], language?: string) {
+    const languages = new Set(terms.filter((term) => this.languages.has(term)));
+    if (language) languages.add(language.trim().toLowerCase());
+    return languages;
+  }
+
+  search(query: string, { language, category, limit = 3 }: SearchOptions = {}) {
+    const terms = [...new Set(tokenize(query))];
+    const languages = this.queryLanguages(terms, language);
+    const matches: SectionMatch[] = [];
+
+    for (const { section, termFrequencies, length } of this.sections) {
+      let score = 0;
+      for (const term of terms) {
+        const tf = termFrequencies.get(term);
+        if (!tf) continue;
+        score +=
+          (this.idf(term) * tf * (K1 + 1)) /
+          (tf + K1 * (1 - B + (B * length) / this.averageLength));
+      }
+      if (score === 0) continue;
+
+      const guideLanguages = section.guide.languages;
+      if (languages.size > 0 && guideLanguages.length > 0) {
+        score *= guideLanguages.some((l) => languages.has(l))
+          ? LANGUAGE_BOOST
+          : OTHER_LANGUAGE_PENALTY;
+      }
+      if (category && section.guide.category === category) score *= CATEGORY_BOOST;
+
+      matches.push({ section, score });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return { matches: matches.slice(0, limit), confidence: confidence(terms, matches) };
+  }
+}
+
+// Top score at which confidence reaches ~63% of its ceiling.
+const SCORE_SCALE = 4;
+
+/**
+ * 0–1 confidence in the top match: the share of query terms it contains,
+ * scaled by how strong its score is and discounted when the runner-up from
+ * another guide scores almost as well.
+ */
+function confidence(terms: string[], matches: SectionMatch[]) {
+  const [top] = matches;
+  if (!top || terms.length === 0) return 0;
+
+  const indexed = [
+    top.section.guide.title,
+    ...top.section.guide.keywords,
+    top.section.heading,
+    top.section.content,
+  ].join(" ");
+  const sectionTerms = new Set(tokenize(indexed));
+  const coverage = terms.filter((term) => sectionTerms.has(term)).length / terms.length;
+
+  const runnerUp = matches.find((match) => match.section.guide !== top.section.guide);
+  const margin = runnerUp ? 1 - (runnerUp.score / top.score) * 0.5 : 1;
+  const strength = 1 - Math.exp(-top.score / SCORE_SCALE);
+  return Math.round(coverage * margin * strength * 100) / 100;
+}
+
+// Built once at startup from the loaded guides.
+export const guideSearch = new GuideSearchIndex(guideIndex.all());
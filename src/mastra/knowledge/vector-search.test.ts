@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LibSQLVector } from "@mastra/libsql";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "guide-vectors-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+
+const { GuideVectorIndex } = await import("./vector-search");
+const { hashedNgramEmbedder } = await import("./embedders");
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const deploying = {
+  source: "guides/deploying.md",
+  title: "Deploying",
+  text: [
+    "## Deploy to Railway",
+    "Push the repo, then run railway up and set the environment variables.",
+    "## Read the Telex logs",
+    "Fetch the channel's agent log to see what Telex sent and got back.",
+  ].join("\n\n"),
+};
+
+const testing = {
+  source: "guides/testing.md",
+  title: "Testing",
+  text: "## Curl the endpoint\n\nPOST a message/send request to the local server with curl.",
+};
+
+describe("GuideVectorIndex", () => {
+  const vector = new LibSQLVector({ connectionUrl: `file:${join(dir, "index.db")}` });
+
+  it("cites the chunks closest to the query, best first", async () => {
+    const index = new GuideVectorIndex(vector, hashedNgramEmbedder(), () => [deploying, testing]);
+
+    const citations = await index.search("deploy to railway", 2);
+
+    expect(citations).toHaveLength(2);
+    expect(citations[0]).toMatchObject({
+      source: "guides/deploying.md",
+      heading: "Deploy to Railway",
+      text: expect.stringContaining("railway up"),
+    });
+    expect(citations[0].score).toBeGreaterThan(citations[1].score);
+  });
+
+  it("rebuilds the index so removed documents are no longer cited", async () => {
+    const index = new GuideVectorIndex(vector, hashedNgramEmbedder(), () => [testing]);
+
+    const citations = await index.search("deploy to railway", 3);
+
+    expect(citations.map(({ source }) => source)).toEqual(["guides/testing.md"]);
+  });
+});
@@ -0,0 +1,155 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { MastraVector } from "@mastra/core/vector";
+import { MDocument } from "@mastra/rag";
+import { vectorStore } from "../storage";
+import { hashedNgramEmbedder, type Embedder } from "./embedders";
+import { guideIndex, type Guide } from "./guides";
+
+export type KnowledgeDocument = {
+  /** Where the text came from, e.g. `guides/mastra-setup.md` or `README.md` */
+  source: string;
+  title: string;
+  /** Markdown body */
+  text: string;
+};
+
+export type Citation = {
+  source: string;
+  /** Heading path of the chunk, e.g. `Quick Setup > 4. Deploy to Production` */
+  heading: string;
+  text: string;
+  score: number;
+};
+
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 100;
+
+export function guideDocument(guide: Guide): KnowledgeDocument {
+  return { source: `guides/${guide.id}.md`, title: guide.title, text: guide.content };
+}
+
+// The README sits at the project root, two levels above the built server.
+function readmeDocument(): KnowledgeDocument | null {
+  const path = [
+    join(process.cwd(), "README.md"),
+    join(process.cwd(), "../../README.md"),
+  ].find((candidate) => existsSync(candidate));
+  if (!path) return null;
+  return {
+    source: "README.md",
+    title: "Telex Agent Builder README",
+    text: readFileSync(path, "utf8"),
+  };
+}
+
+/** Splits a document at its markdown headings, keeping long sections under CHUNK_SIZE. */
+export async function chunkDocument({ source, title, text }: KnowledgeDocument) {
+  const chunks = await MDocument.fromMarkdown(text).chunk({
+    strategy: "markdown",
+    headers: [
+      ["##", "section"],
+      ["###", "subsection"],
+    ],
+    maxSize: CHUNK_SIZE,
+    overlap: CHUNK_OVERLAP,
+  });
+
+  return chunks
+    .filter((chunk) => chunk.text.trim())
+    .map((chunk, i) => {
+      const { section, subsection } = chunk.metadata;
+      const heading = [section, subsection].filter(Boolean).join(" > ") || title;
+      return { id: `${source}#${i}`, source, title, heading, text: chunk.text.trim() };
+    });
+}
+
+/**
+ * Semantic search over the guides (and README) using a Mastra vector store.
+ * Documents are chunked with Mastra RAG, embedded with the given embedder and
+ * indexed on first use; each embedder gets its own index.
+ */
+export class GuideVectorIndex {
+  private ready?: Promise<void>;
+
+  constructor(
+    private vector: MastraVector,
+    private embedder: Embedder,
+    private documents: () => KnowledgeDocument[]
+  ) {}
+
+  get indexName() {
+    return `guides_${this.embedder.id.replace(/[^a-zA-Z0-9]/g, "_")}`;
+  }
+
+  private async build() {
+    const chunks = (await Promise.all(this.documents().map(chunkDocument))).flat();
+    const vectors = await this.embedder.embed(
+      chunks.map(({ title, heading, text }) => `${title}\n${heading}\n${text}`)
+    );
+
+    // Start clean so chunks from edited or removed guides do not linger
+    const indexes = await this.vector.listIndexes();
+    if (indexes.includes(this.indexName)) {
+      await this.vector.deleteIndex({ indexName: this.indexName });
+    }
+    await this.vector.createIndex({
+      indexName: this.indexName,
+      dimension: this.embedder.dimension,
+      metric: "cosine",
+    });
+    await this.vector.upsert({
+      indexName: this.indexName,
+      ids: chunks.map(({ id }) => id),
+      vectors,
+      metadata: chunks.map(({ source, heading, text }) => ({ source, heading, text })),
+    });
+  }
+
+  private init() {
+    this.ready ??= this.build().catch((error) => {
+      this.ready = undefined;
+      throw error;
+    });
+    return this.ready;
+  }
+
+  async search(query: string, topK = 3): Promise<Citation[]> {
+    await this.init();
+    const [queryVector] = await this.embedder.embed([query]);
+    const results = await this.vector.query({
+      indexName: this.indexName,
+      queryVector,
+      topK,
+    });
+    return results.map(({ score, metadata }) => ({
+      source: metadata?.source,
+      heading: metadata?.heading,
+      text: metadata?.text,
+      score: Math.round(score * 100) / 100,
+    }));
+  }
+}
+
+function knowledgeDocuments() {
+  const readme = readmeDocument();
+  return [...guideIndex.all().map(guideDocument), ...(readme ? [readme] : [])];
+}
+
+let guideVectorIndex = new GuideVectorIndex(
+  vectorStore,
+  hashedNgramEmbedder(),
+  knowledgeDocuments
+);
+
+/**
+ * Swaps the embedder used for guide search, e.g. for a hosted model:
+ * `setGuideEmbedder(modelEmbedder(openai.embedding("text-embedding-3-small"), 1536))`.
+ */
+export function setGuideEmbedder(embedder: Embedder) {
+  guideVectorIndex = new GuideVectorIndex(vectorStore, embedder, knowledgeDocuments);
+}
+
+export function searchGuideChunks(query: string, topK = 3) {
+  return guideVectorIndex.search(query, topK);
+}
@@ -0,0 +1,171 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Mastra } from "@mastra/core/mastra";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "a2a-agent-route-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+
+const { a2aAgentRoute } = await import("./a2a-agent-route");
+const { serveRoutes, testAgent, textModel } = await import("../a2a/test-server");
+
+const mastra = new Mastra({
+  agents: {
+    greeter: testAgent(textModel("Hello from the greeter!")),
+    broken: testAgent(textModel("", { fail: "model is down" })),
+    slow: testAgent(textModel("one two three four five six seven eight", { delayMs: 50 })),
+  },
+  logger: false,
+});
+
+let server: Awaited<ReturnType<typeof serveRoutes>>;
+
+beforeAll(async () => {
+  server = await serveRoutes(mastra, [a2aAgentRoute]);
+});
+
+afterAll(async () => {
+  await server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function request(agentId: string, method: string, params: unknown, signal?: AbortSignal) {
+  return fetch(`${server.url}/a2a/agent/${agentId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: "req-1", method, params }),
+    signal,
+  });
+}
+
+function message(text: string) {
+  return {
+    message: {
+      kind: "message",
+      role: "user",
+      parts: [{ kind: "text", text }],
+      messageId: crypto.randomUUID(),
+    },
+  };
+}
+
+// The JSON-RPC responses of an SSE body, in order.
+async function events(response: Response) {
+  const body = await response.text();
+  return body
+    .split("\n\n")
+    .filter((frame) => frame.startsWith("data: "))
+    .map((frame) => JSON.parse(frame.slice("data: ".length)));
+}
+
+describe("message/stream", () => {
+  it("streams the reply and ends with a final completed status", async () => {
+    const sent = await events(await request("greeter", "message/stream", message("Hi")));
+    const results = sent.map(({ result }) => result);
+
+    expect(sent.every(({ id }) => id === "req-1")).toBe(true);
+    expect(results[0]).toMatchObject({ kind: "status-update", status: { state: "working" } });
+    expect(
+      results
+        .filter((event) => event.kind === "artifact-update" && !event.lastChunk)
+        .map((event) => event.artifact.parts[0].text)
+        .join("")
+    ).toBe("Hello from the greeter!");
+    expect(results.at(-1)).toMatchObject({
+      kind: "status-update",
+      status: { state: "completed" },
+      final: true,
+    });
+  });
+
+  it("ends with a final failed status when the model fails", async () => {
+    const sent = await events(await request("broken", "message/stream", message("Hi")));
+    const results = sent.map(({ result }) => result);
+
+    expect(results.some((event) => event.kind === "artifact-update")).toBe(false);
+    expect(results.at(-1)).toMatchObject({
+      kind: "status-update",
+      status: {
+        state: "failed",
+        message: { parts: [{ kind: "text", text: "Agent error: model is down" }] },
+      },
+      final: true,
+    });
+
+    const stored = await (
+      await request("broken", "tasks/get", { id: results[0].taskId })
+    ).json();
+    expect(stored.result.status.state).toBe("failed");
+  });
+
+  it("stores the task as canceled when the client disconnects", async () => {
+    const disconnect = new AbortController();
+    const response = await request("slow", "message/stream", message("Count"), disconnect.signal);
+    const reader = response.body!.getReader();
+    const first = new TextDecoder().decode((await reader.read()).value);
+    const { taskId } = JSON.parse(first.slice("data: ".length)).result;
+    disconnect.abort();
+
+    await vi.waitFor(
+      async () => {
+        const stored = await (await request("slow", "tasks/get", { id: taskId })).json();
+        expect(stored.result.status.state).toBe("canceled");
+      },
+      { timeout: 5_000, interval: 50 }
+    );
+  });
+});
+
+describe("message/send", () => {
+  it("answers with the completed task", async () => {
+    const response = await request("greeter", "message/send", message("Hi"));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      id: "req-1",
+      result: {
+        kind: "task",
+        status: { state: "completed" },
+        artifacts: [{ parts: [{ kind: "text", text: "Hello from the greeter!" }] }],
+      },
+    });
+  });
+
+  it("answers a model failure with the failed task under the request's id", async () => {
+    const response = await request("broken", "message/send", message("Hi"));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      id: "req-1",
+      result: {
+        kind: "task",
+        status: {
+          state: "failed",
+          message: { parts: [{ kind: "text", text: "Agent error: model is down" }] },
+        },
+      },
+    });
+
+    const stored = await (await request("broken", "tasks/get", { id: body.result.id })).json();
+    expect(stored.result.status.state).toBe("failed");
+  });
+
+  it("refuses a push callback on a link-local address before running", async () => {
+    const response = await request("greeter", "message/send", {
+      ...message("Hi"),
+      configuration: {
+        pushNotificationConfig: { url: "http://169.254.169.254/latest/meta-data" },
+      },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      id: "req-1",
+      error: { code: -32602, message: expect.stringContaining("169.254.169.254") },
+    });
+  });
+});
@@ -1,179 +1,277 @@
-import { registerApiRoute } from "@mastra/core/server";
+import type { Agent } from "@mastra/core/agent";
+import type { Artifact, Task } from "@mastra/core/a2a";
 import { randomUUID } from "crypto";
+import { createSSEResponse } from "../a2a/sse";
+import { resolveMemory } from "../a2a/memory";
+import { fileArtifact, toMastraMessages, type ToolResultChunk } from "../a2a/parts";
+import { messageSendParamsSchema, type MessageSendParams } from "../a2a/schemas";
+import {
+  admitted,
+  createA2ARoute,
+  validated,
+  type MethodContext,
+} from "../a2a/handler";
+import { askForInput, moveTask, openTask, taskMethods } from "../a2a/tasks";
+import { isTerminal } from "../a2a/task-store";
+import {
+  finishTaskRun,
+  publishTaskEvent,
+  startTaskRun,
+  type TaskEvent,
+} from "../a2a/task-events";
+import {
+  findSuspendedWorkflow,
+  pendingWorkflow,
+  resumeWorkflow,
+  setPendingWorkflow,
+} from "../a2a/workflow-runs";
+
+type AgentTarget = { agent: Agent; agentId: string };
+
+export const a2aAgentRoute = createA2ARoute<AgentTarget>("/a2a/agent/:agentId", {
+  kind: "agent",
+  resolve: (mastra, agentId) => {
+    const agent = mastra.getAgents()[agentId];
+    return agent && { agent, agentId };
+  },
+  methods: {
+    "message/send": validated(messageSendParamsSchema, admitted(sendMessage)),
+    "message/stream": validated(messageSendParamsSchema, admitted(streamMessage)),
+    ...taskMethods,
+  },
+});
+
+// Resumes the workflow run a task is waiting on with the message that just
+// arrived. If the run asks again the task goes back to `input-required`;
+// otherwise its result becomes context for the agent's reply.
+async function resumePendingWorkflow(agent: Agent, task: Task) {
+  const pending = pendingWorkflow(task);
+  if (!pending) return {};
+
+  setPendingWorkflow(task, undefined);
+  const workflows = await agent.getWorkflows();
+  const resumed = await resumeWorkflow(
+    workflows[pending.workflow],
+    pending,
+    task.history?.at(-1)
+  );
+  if ("suspended" in resumed) {
+    return { waiting: await askForInput(task, resumed.suspended) };
+  }
+  return {
+    context: [
+      {
+        role: "system" as const,
+        content: `The user answered the ${pending.workflow} workflow's questions and it finished with this result; answer from it:\n${JSON.stringify(resumed.result)}`,
+      },
+    ],
+  };
+}
+
+function toolResultsArtifact(toolResults: ToolResultChunk[]): Artifact {
+  return {
+    artifactId: randomUUID(),
+    name: "ToolResults",
+    parts: toolResults.map((result) => ({
+      kind: "data",
+      data: { ...result },
+    })),
+  };
+}
+
+// Runs the agent for `message/send`. Blocking calls get the finished task;
+// non-blocking ones (or ones with a push callback) get the `working` task at
+// once while the run carries on and reports through the callback.
+async function sendMessage(
+  ctx: MethodContext<AgentTarget, MessageSendParams>,
+  release: () => void
+) {
+  const opened = await openTask(ctx.params, toMastraMessages);
+  const task = await moveTask(opened.task, "working");
+  const run = generateTask(ctx, task, opened.input).finally(release);
+
+  const { blocking, pushNotificationConfig } = ctx.params.configuration ?? {};
+  if (blocking === false || (pushNotificationConfig && blocking !== true)) {
+    // Failures are already recorded on the task
+    run.catch(() => {});
+    return task;
+  }
+  return run;
+}
+
+async function generateTask(
+  { agent, agentId, params }: MethodContext<AgentTarget, MessageSendParams>,
+  task: Task,
+  mastraMessages: ReturnType<typeof toMastraMessages>
+) {
+  const controller = startTaskRun(task.id);
+
+  try {
+    const resumed = await resumePendingWorkflow(agent, task);
+    if (resumed.waiting) return resumed.waiting;
+
+    const response = await agent.generate(mastraMessages, {
+      abortSignal: controller.signal,
+      memory: resolveMemory(agent, task.contextId, params),
+      ...(resumed.context && { context: resumed.context }),
+    });
+    const agentText = response.text || "";
+
+    task.artifacts = [
+      {
+        artifactId: randomUUID(),
+        name: `${agentId}Response`,
+        parts: [{ kind: "text", text: agentText }],
+      },
+    ];
+    if (response.toolResults && response.toolResults.length > 0) {
+      task.artifacts.push(toolResultsArtifact(response.toolResults));
+    }
+    const files = fileArtifact(response.files ?? [], response.toolResults ?? []);
+    if (files) task.artifacts.push(files);
+
+    const suspended = findSuspendedWorkflow(response.toolResults ?? []);
+    if (suspended) return await askForInput(task, suspended);
+    return await moveTask(task, "completed", agentText);
+  } catch (error) {
+    // The failed task is the result, so the client can still look it up
+    const reason = error instanceof Error ? error.message : String(error);
+    return await moveTask(task, "failed", `Agent error: ${reason}`);
+  } finally {
+    finishTaskRun(task.id);
+  }
+}
+
+// Streams a task as SSE: `working` status, text chunks as `artifact-update`
+// events, tool results, then a final `completed` (or `failed`) status, or
+// `input-required` when a workflow the agent ran asks the user something.
+// A model failure ends the stream with a `failed` status; a client that
+// disconnects aborts the generation and the task is stored as `canceled`.
+async function streamMessage(
+  { agent, agentId, requestId, params }: MethodContext<AgentTarget, MessageSendParams>,
+  release: () => void
+) {
+  const opened = await openTask(params, toMastraMessages);
+  const task = await moveTask(opened.task, "working");
+  const controller = startTaskRun(task.id);
+  const { id: taskId, contextId } = task;
+
+  return createSSEResponse(requestId, async (send) => {
+    const emit = (event: TaskEvent) => {
+      publishTaskEvent(event);
+      send(event);
+    };
+    const emitStatus = (current: Task) =>
+      emit({
+        kind: "status-update",
+        taskId,
+        contextId,
+        status: current.status,
+        final: isTerminal(current) || current.status.state === "input-required",
+      });
+
+    emitStatus(task);
 
-export const a2aAgentRoute = registerApiRoute("/a2a/agent/:agentId", {
-  method: "POST",
-  handler: async (c) => {
     try {
-      const mastra = c.get("mastra");
-      const agentId = c.req.param("agentId");
-
-      // Handle empty body gracefully
-      let body;
-      try {
-        const text = await c.req.text();
-        if (!text || text.trim() === "") {
-          // Return 200 with empty result for empty body
-          return c.json(
-            {
-              jsonrpc: "2.0",
-              id: null,
-              result: {
-                id: randomUUID(),
-                contextId: randomUUID(),
-                status: {
-                  state: "completed",
-                  timestamp: new Date().toISOString(),
-                },
-                artifacts: [],
-                history: [],
-                kind: "task",
-              },
-            },
-            200
-          );
-        }
-        body = JSON.parse(text);
-      } catch (parseError) {
-        return c.json(
-          {
-            jsonrpc: "2.0",
-            id: null,
-            error: {
-              code: -32700,
-              message: "Parse error: Invalid JSON",
-            },
-          },
-          400
-        );
+      const resumed = await resumePendingWorkflow(agent, task);
+      if (resumed.waiting) {
+        emitStatus(resumed.waiting);
+        return;
       }
 
-      const { jsonrpc, id: requestId, method, params } = body;
-
-      if (jsonrpc !== "2.0" || !requestId) {
-        return c.json(
-          {
-            jsonrpc: "2.0",
-            id: requestId || null,
-            error: {
-              code: -32600,
-              message:
-                'Invalid Request: jsonrpc must be "2.0" and id is required',
-            },
-          },
-          400
-        );
-      }
+      const stream = await agent.stream(opened.input, {
+        abortSignal: controller.signal,
+        memory: resolveMemory(agent, task.contextId, params),
+        ...(resumed.context && { context: resumed.context }),
+      });
+      const artifact: Artifact = {
+        artifactId: randomUUID(),
+        name: `${agentId}Response`,
+        parts: [{ kind: "text", text: "" }],
+      };
+      const reader = stream.textStream.getReader();
+      let agentText = "";
+      let append = false;
 
-      const agent = mastra.getAgent(agentId);
-      if (!agent) {
-        return c.json(
-          {
-            jsonrpc: "2.0",
-            id: requestId,
-            error: {
-              code: -32602,
-              message: `Agent '${agentId}' not found`,
-            },
-          },
-          404
-        );
-      }
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (!value) continue;
 
-      const { message, messages, contextId, taskId, metadata } = params || {};
+        agentText += value;
+        emit({
+          kind: "artifact-update",
+          taskId,
+          contextId,
+          artifact: { ...artifact, parts: [{ kind: "text", text: value }] },
+          append,
+          lastChunk: false,
+        });
+        append = true;
+      }
 
-      let messagesList: any[] = [];
-      if (message) {
-        messagesList = [message];
-      } else if (messages && Array.isArray(messages)) {
-        messagesList = messages;
+      // The text stream just ends when the model fails or the client goes
+      // away, so check how the run finished before calling the reply complete
+      controller.signal.throwIfAborted();
+      if (stream.error || (await stream.finishReason) === "error") {
+        throw stream.error ?? new Error("The model stream failed");
       }
 
-      const mastraMessages = messagesList.map((msg) => ({
-        role: msg.role,
-        content:
-          msg.parts
-            ?.map((part: any) => {
-              if (part.kind === "text") return part.text;
-              if (part.kind === "data") return JSON.stringify(part.data);
-              return "";
-            })
-            .join("\n") || "",
-      }));
-
-      const response = await agent.generate(mastraMessages);
-      const agentText = response.text || "";
-
-      const artifacts: any[] = [
-        {
-          artifactId: randomUUID(),
-          name: `${agentId}Response`,
-          parts: [{ kind: "text", text: agentText }],
-        },
+      emit({
+        kind: "artifact-update",
+        taskId,
+        contextId,
+        artifact,
+        append,
+        lastChunk: true,
+      });
+      task.artifacts = [
+        { ...artifact, parts: [{ kind: "text", text: agentText }] },
       ];
 
-      if (response.toolResults && response.toolResults.length > 0) {
-        artifacts.push({
-          artifactId: randomUUID(),
-          name: "ToolResults",
-          parts: response.toolResults.map((result: any) => ({
-            kind: "data",
-            data: result,
-          })),
+      const toolResults = await stream.toolResults;
+      if (toolResults && toolResults.length > 0) {
+        const toolArtifact = toolResultsArtifact(toolResults);
+        task.artifacts.push(toolArtifact);
+        emit({
+          kind: "artifact-update",
+          taskId,
+          contextId,
+          artifact: toolArtifact,
+          append: false,
+          lastChunk: true,
         });
       }
 
-      const history = [
-        ...messagesList.map((msg) => ({
-          kind: "message",
-          role: msg.role,
-          parts: msg.parts,
-          messageId: msg.messageId || randomUUID(),
-          taskId: msg.taskId || taskId || randomUUID(),
-        })),
-        {
-          kind: "message",
-          role: "agent",
-          parts: [{ kind: "text", text: agentText }],
-          messageId: randomUUID(),
-          taskId: taskId || randomUUID(),
-        },
-      ];
+      const files = fileArtifact(await stream.files, toolResults ?? []);
+      if (files) {
+        task.artifacts.push(files);
+        emit({
+          kind: "artifact-update",
+          taskId,
+          contextId,
+          artifact: files,
+          append: false,
+          lastChunk: true,
+        });
+      }
 
-      return c.json({
-        jsonrpc: "2.0",
-        id: requestId,
-        result: {
-          id: taskId || randomUUID(),
-          contextId: contextId || randomUUID(),
-          status: {
-            state: "completed",
-            timestamp: new Date().toISOString(),
-            message: {
-              messageId: randomUUID(),
-              role: "agent",
-              parts: [{ kind: "text", text: agentText }],
-              kind: "message",
-            },
-          },
-          artifacts,
-          history,
-          kind: "task",
-        },
-      });
-    } catch (error: any) {
-      return c.json(
-        {
-          jsonrpc: "2.0",
-          id: null,
-          error: {
-            code: -32603,
-            message: "Internal error",
-            data: { details: error.message },
-          },
-        },
-        500
+      const suspended = findSuspendedWorkflow(toolResults ?? []);
+      emitStatus(
+        await (suspended
+          ? askForInput(task, suspended)
+          : moveTask(task, "completed", agentText))
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      emitStatus(
+        controller.signal.aborted
+          ? await moveTask(task, "canceled")
+          : await moveTask(task, "failed", `Agent error: ${reason}`)
       );
+    } finally {
+      finishTaskRun(taskId);
+      release();
     }
-  },
-});
+  }, () => controller.abort());
+}
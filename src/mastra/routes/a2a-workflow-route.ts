@@ -0,0 +1,177 @@
+import type { Task } from "@mastra/core/a2a";
+import type { Workflow, WorkflowStreamEvent } from "@mastra/core/workflows";
+import { createSSEResponse } from "../a2a/sse";
+import { stepArtifact, toWorkflowInput } from "../a2a/parts";
+import { messageSendParamsSchema, type MessageSendParams } from "../a2a/schemas";
+import {
+  admitted,
+  createA2ARoute,
+  validated,
+  type MethodContext,
+} from "../a2a/handler";
+import { askForInput, moveTask, openTask, taskMethods } from "../a2a/tasks";
+import { isTerminal } from "../a2a/task-store";
+import {
+  abortTaskRun,
+  finishTaskRun,
+  publishTaskEvent,
+  startTaskRun,
+  type TaskEvent,
+} from "../a2a/task-events";
+import {
+  pendingWorkflow,
+  resumeWorkflow,
+  setPendingWorkflow,
+  startWorkflow,
+} from "../a2a/workflow-runs";
+
+type WorkflowTarget = { workflow: Workflow; workflowId: string };
+
+export const a2aWorkflowRoute = createA2ARoute<WorkflowTarget>(
+  "/a2a/workflow/:workflowId",
+  {
+    kind: "workflow",
+    resolve: (mastra, workflowId) => {
+      const workflow = mastra.getWorkflows()[workflowId];
+      return workflow && { workflow, workflowId };
+    },
+    methods: {
+      "message/send": validated(messageSendParamsSchema, admitted(sendMessage)),
+      "message/stream": validated(messageSendParamsSchema, admitted(streamMessage)),
+      ...taskMethods,
+    },
+  }
+);
+
+// A reply to a task waiting on a suspended run is resume data; any other
+// message has to fit the workflow's input schema.
+function openWorkflowTask({ workflow, params }: MethodContext<WorkflowTarget, MessageSendParams>) {
+  return openTask(params, (messages, existing) =>
+    existing && pendingWorkflow(existing)
+      ? undefined
+      : toWorkflowInput(workflow.inputSchema, messages)
+  );
+}
+
+/**
+ * Runs the workflow for a task, or resumes the run the task is waiting on.
+ * Each step reports a `working` status naming it when it starts and its
+ * output as an artifact named after it when it finishes. Ends `completed`,
+ * `failed`, or `input-required` when a step suspends to ask something.
+ */
+async function runTask(
+  { workflow, workflowId }: WorkflowTarget,
+  task: Task,
+  input: unknown,
+  emit: (event: TaskEvent) => void
+) {
+  const controller = startTaskRun(task.id);
+  const { id: taskId, contextId } = task;
+  const emitStatus = (current: Task) =>
+    emit({
+      kind: "status-update",
+      taskId,
+      contextId,
+      status: current.status,
+      final: isTerminal(current) || current.status.state === "input-required",
+    });
+
+  let current = task;
+  // Step events arrive synchronously; their updates are applied in order.
+  let progress = Promise.resolve();
+  const watch = (event: WorkflowStreamEvent) => {
+    if (event.type === "workflow-step-start") {
+      const { id } = event.payload;
+      progress = progress.then(async () => {
+        current = await moveTask(current, "working", `Running step '${id}'`);
+        emitStatus(current);
+      });
+    } else if (event.type === "workflow-step-result" && event.payload.status === "success") {
+      const artifact = stepArtifact(event.payload.id, event.payload.output);
+      progress = progress.then(() => {
+        current = { ...current, artifacts: [...(current.artifacts ?? []), artifact] };
+        emit({
+          kind: "artifact-update",
+          taskId,
+          contextId,
+          artifact,
+          append: false,
+          lastChunk: true,
+        });
+      });
+    }
+  };
+
+  emitStatus(task);
+  try {
+    const pending = pendingWorkflow(task);
+    setPendingWorkflow(task, undefined);
+    const options = { watch, signal: controller.signal };
+    const outcome = pending
+      ? await resumeWorkflow(
+          pending.workflow === workflowId ? workflow : undefined,
+          pending,
+          task.history?.at(-1),
+          options
+        )
+      : await startWorkflow(workflow, workflowId, input, options);
+    await progress;
+
+    current = await ("suspended" in outcome
+      ? askForInput(current, outcome.suspended)
+      : moveTask(current, "completed", `Workflow '${workflowId}' finished`));
+    emitStatus(current);
+    return current;
+  } catch (error) {
+    await progress.catch(() => {});
+    // The failed task is the result, so the client can still look it up
+    const reason = error instanceof Error ? error.message : String(error);
+    const failed = await moveTask(current, "failed", `Workflow error: ${reason}`);
+    emitStatus(failed);
+    return failed;
+  } finally {
+    finishTaskRun(taskId);
+  }
+}
+
+// Runs the workflow for `message/send`. Blocking calls get the finished task;
+// non-blocking ones (or ones with a push callback) get the `working` task at
+// once while the run carries on and reports through the callback.
+async function sendMessage(
+  ctx: MethodContext<WorkflowTarget, MessageSendParams>,
+  release: () => void
+) {
+  const opened = await openWorkflowTask(ctx);
+  const task = await moveTask(opened.task, "working");
+  const run = runTask(ctx, task, opened.input, publishTaskEvent).finally(release);
+
+  const { blocking, pushNotificationConfig } = ctx.params.configuration ?? {};
+  if (blocking === false || (pushNotificationConfig && blocking !== true)) {
+    // Failures are already recorded on the task
+    run.catch(() => {});
+    return task;
+  }
+  return run;
+}
+
+// Streams the run as SSE: a `working` status as each step starts, each step's
+// output as an `artifact-update`, then the final status. A client that
+// disconnects cancels the run.
+async function streamMessage(
+  ctx: MethodContext<WorkflowTarget, MessageSendParams>,
+  release: () => void
+) {
+  const opened = await openWorkflowTask(ctx);
+  const task = await moveTask(opened.task, "working");
+
+  return createSSEResponse(ctx.requestId, async (send) => {
+    try {
+      await runTask(ctx, task, opened.input, (event) => {
+        publishTaskEvent(event);
+        send(event);
+      });
+    } finally {
+      release();
+    }
+  }, () => abortTaskRun(task.id));
+}
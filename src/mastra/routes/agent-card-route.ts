@@ -0,0 +1,60 @@
+import { registerApiRoute } from "@mastra/core/server";
+import { MastraA2AError } from "@mastra/core/a2a";
+import { buildAgentCard, resolveBaseUrl } from "../a2a/agent-card";
+import { jsonRpcError } from "../a2a/jsonrpc";
+
+function agentNotFound(agentId: string) {
+  return jsonRpcError(null, MastraA2AError.invalidParams(`Agent '${agentId}' not found`));
+}
+
+// The router that hands questions to the specialists, and Telex's entry point.
+const DEFAULT_AGENT_ID = "telexAgentBuilder";
+
+// The server's own card, which A2A clients read as a single AgentCard: the
+// agent named by A2A_DEFAULT_AGENT, else the router.
+export const defaultAgentCardRoute = registerApiRoute("/.well-known/agent.json", {
+  method: "GET",
+  handler: async (c) => {
+    const agentId = process.env.A2A_DEFAULT_AGENT || DEFAULT_AGENT_ID;
+
+    const agent = c.get("mastra").getAgents()[agentId];
+    if (!agent) return c.json(agentNotFound(agentId), 404);
+
+    return c.json(await buildAgentCard(agent, agentId, resolveBaseUrl(c.req.url)));
+  },
+});
+
+// Agent Cards for every registered agent, so a client can discover them all.
+export const agentCardsRoute = registerApiRoute("/.well-known/agents.json", {
+  method: "GET",
+  handler: async (c) => {
+    const mastra = c.get("mastra");
+    const baseUrl = resolveBaseUrl(c.req.url);
+
+    const cards = await Promise.all(
+      Object.entries(mastra.getAgents()).map(([agentId, agent]) =>
+        buildAgentCard(agent, agentId, baseUrl)
+      )
+    );
+
+    return c.json(cards);
+  },
+});
+
+export const agentCardRoute = registerApiRoute(
+  "/a2a/agent/:agentId/.well-known/agent.json",
+  {
+    method: "GET",
+    handler: async (c) => {
+      const mastra = c.get("mastra");
+      const agentId = c.req.param("agentId");
+
+      const agent = mastra.getAgents()[agentId];
+      if (!agent) return c.json(agentNotFound(agentId), 404);
+
+      return c.json(
+        await buildAgentCard(agent, agentId, resolveBaseUrl(c.req.url))
+      );
+    },
+  }
+);
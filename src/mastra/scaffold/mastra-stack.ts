@@ -0,0 +1,284 @@
+import {
+  capabilityList,
+  projectReadme,
+  templateLiteral,
+  type Project,
+  type ProjectFile,
+  type Stack,
+} from "./project";
+
+// Versions this project is built and tested with.
+const DEPENDENCIES = {
+  "@mastra/core": "^0.23.3",
+  "@mastra/libsql": "^0.16.1",
+  "@mastra/loggers": "^0.10.18",
+  "@mastra/memory": "^0.15.10",
+  zod: "^4",
+};
+const DEV_DEPENDENCIES = {
+  "@types/node": "^24.9.2",
+  mastra: "^0.17.7",
+  typescript: "^5.9.3",
+};
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+function packageJson(project: Project) {
+  return json({
+    name: project.slug,
+    version: "0.1.0",
+    description: project.description ?? `${project.title}, a Telex.im agent`,
+    type: "module",
+    scripts: {
+      dev: "mastra dev",
+      build: "mastra build",
+      start: "mastra start",
+    },
+    engines: { node: ">=20.9.0" },
+    dependencies: DEPENDENCIES,
+    devDependencies: DEV_DEPENDENCIES,
+  });
+}
+
+const tsconfig = json({
+  compilerOptions: {
+    target: "ES2022",
+    module: "ES2022",
+    moduleResolution: "bundler",
+    esModuleInterop: true,
+    forceConsistentCasingInFileNames: true,
+    strict: true,
+    skipLibCheck: true,
+    noEmit: true,
+    outDir: "dist",
+  },
+  include: ["src/**/*"],
+});
+
+const envExample = `# Key for the model provider used by the agent (see src/mastra/agents)
+GOOGLE_GENERATIVE_AI_API_KEY=
+
+# LibSQL database for memory; a local file by default
+LIBSQL_URL=file:./mastra.db
+`;
+
+const gitignore = `node_modules
+.mastra
+.env
+*.db
+*.db-*
+`;
+
+function mastraIndex({ id, slug, title }: Project) {
+  return `import { Mastra } from "@mastra/core/mastra";
+import { LibSQLStore } from "@mastra/libsql";
+import { PinoLogger } from "@mastra/loggers";
+import { ${id}Agent } from "./agents/${slug}-agent";
+import { a2aAgentRoute } from "./routes/a2a-agent-route";
+
+export const mastra = new Mastra({
+  agents: { ${id}Agent },
+  storage: new LibSQLStore({
+    url: process.env.LIBSQL_URL || "file:./mastra.db",
+  }),
+  logger: new PinoLogger({
+    name: ${JSON.stringify(title)},
+    level: "info",
+  }),
+  server: {
+    apiRoutes: [a2aAgentRoute],
+  },
+});
+`;
+}
+
+function agentFile(project: Project) {
+  const { id, slug, title, description } = project;
+  return `import { Agent } from "@mastra/core/agent";
+import { Memory } from "@mastra/memory";
+import { ${id}Tool } from "../tools/${slug}-tool";
+
+export const ${id}Agent = new Agent({
+  name: ${JSON.stringify(title)},
+  instructions: \`
+You are ${templateLiteral(title)}${description ? `, ${templateLiteral(description)}` : ""}.
+
+## What You Can Do
+${templateLiteral(capabilityList(project))}
+
+## How You Work
+- Use ${id}Tool when a request needs it
+- Keep answers short and clear; they are shown in chat
+- Say so when a request is outside what you can do
+\`,
+  model: "google/gemini-2.5-pro",
+  tools: { ${id}Tool },
+  memory: new Memory(),
+});
+`;
+}
+
+function toolFile({ id, slug, title, capabilities }: Project) {
+  const description = capabilities[0] ?? `Does the main work for ${title}`;
+  return `import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+
+export const ${id}Tool = createTool({
+  id: "${slug}-tool",
+  description: ${JSON.stringify(description)},
+  inputSchema: z.object({
+    input: z.string().describe("What to work on"),
+  }),
+  outputSchema: z.object({
+    result: z.string(),
+  }),
+  execute: async ({ context }) => {
+    // Replace with the real work: call an API, query a database, ...
+    return { result: \`Handled: \${context.input}\` };
+  },
+});
+`;
+}
+
+// A compact version of the A2A route Telex calls: JSON-RPC 2.0 `message/send`.
+const a2aRoute = `import { registerApiRoute } from "@mastra/core/server";
+import { randomUUID } from "crypto";
+
+type Part = { kind: string; text?: string; [key: string]: unknown };
+type Message = {
+  kind?: "message";
+  role: "user" | "agent";
+  parts: Part[];
+  messageId?: string;
+  taskId?: string;
+  contextId?: string;
+};
+
+const rpcError = (id: unknown, code: number, message: string) => ({
+  jsonrpc: "2.0",
+  id: id ?? null,
+  error: { code, message },
+});
+
+/**
+ * A2A endpoint for Telex: \`POST /a2a/agent/:agentId\` with a JSON-RPC 2.0
+ * \`message/send\` request. Replies with a completed task holding the agent's
+ * answer; the A2A \`contextId\` is used as the memory thread.
+ */
+export const a2aAgentRoute = registerApiRoute("/a2a/agent/:agentId", {
+  method: "POST",
+  handler: async (c) => {
+    let body: any;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(rpcError(null, -32700, "Parse error: invalid JSON"), 400);
+    }
+
+    const { jsonrpc, id, method, params } = body ?? {};
+    if (jsonrpc !== "2.0" || id === undefined || id === null) {
+      return c.json(
+        rpcError(id, -32600, 'Invalid Request: jsonrpc must be "2.0" and id is required'),
+        400
+      );
+    }
+    if (method !== "message/send") {
+      return c.json(rpcError(id, -32601, \`Method not found: \${method}\`), 404);
+    }
+
+    const message: Message | undefined = params?.message;
+    if (!message || !Array.isArray(message.parts) || message.parts.length === 0) {
+      return c.json(
+        rpcError(id, -32602, "Invalid params: params.message with at least one part is required"),
+        400
+      );
+    }
+
+    const agentId = c.req.param("agentId");
+    const agent = c.get("mastra").getAgents()[agentId];
+    if (!agent) {
+      return c.json(rpcError(id, -32602, \`Invalid params: agent '\${agentId}' not found\`), 404);
+    }
+
+    const taskId = message.taskId ?? randomUUID();
+    const contextId = message.contextId ?? randomUUID();
+    const text = message.parts
+      .filter((part) => part.kind === "text")
+      .map((part) => part.text ?? "")
+      .join("\\n");
+
+    try {
+      const response = await agent.generate(text, {
+        memory: { thread: contextId, resource: contextId },
+      });
+
+      const agentMessage = {
+        kind: "message",
+        role: "agent",
+        parts: [{ kind: "text", text: response.text }],
+        messageId: randomUUID(),
+        taskId,
+        contextId,
+      };
+      return c.json({
+        jsonrpc: "2.0",
+        id,
+        result: {
+          kind: "task",
+          id: taskId,
+          contextId,
+          status: {
+            state: "completed",
+            timestamp: new Date().toISOString(),
+            message: agentMessage,
+          },
+          artifacts: [
+            {
+              artifactId: randomUUID(),
+              name: "response",
+              parts: [{ kind: "text", text: response.text }],
+            },
+          ],
+          history: [{ ...message, kind: "message", taskId, contextId }, agentMessage],
+        },
+      });
+    } catch (error) {
+      return c.json(
+        rpcError(id, -32603, \`Internal error: \${(error as Error).message}\`),
+        500
+      );
+    }
+  },
+});
+`;
+
+export const mastraStack: Stack = {
+  id: "mastra",
+  language: "TypeScript",
+  framework: "Mastra",
+  languages: ["typescript", "ts", "javascript", "js", "node", "nodejs"],
+  frameworks: ["mastra"],
+  endpoint: ({ id }) => `/a2a/agent/${id}Agent`,
+  files(project): ProjectFile[] {
+    return [
+      { path: "package.json", content: packageJson(project) },
+      { path: "tsconfig.json", content: tsconfig },
+      { path: ".env.example", content: envExample },
+      { path: ".gitignore", content: gitignore },
+      { path: "src/mastra/index.ts", content: mastraIndex(project) },
+      { path: `src/mastra/agents/${project.slug}-agent.ts`, content: agentFile(project) },
+      { path: `src/mastra/tools/${project.slug}-tool.ts`, content: toolFile(project) },
+      { path: "src/mastra/routes/a2a-agent-route.ts", content: a2aRoute },
+      {
+        path: "README.md",
+        content: projectReadme(project, mastraStack, {
+          commands: "npm install\ncp .env.example .env   # then add your API key\nnpm run dev",
+          port: 4111,
+          nodeType: "a2a/mastra-a2a-node",
+          notes:
+            "Open the Mastra Playground at http://localhost:4111 to chat with the agent. `npm run build` bundles it for deployment (Mastra Cloud, Render, Railway, ...).",
+        }),
+      },
+    ];
+  },
+};
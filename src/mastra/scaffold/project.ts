@@ -0,0 +1,183 @@
+import { strToU8, zipSync } from "fflate";
+
+export type ProjectFile = { path: string; content: string };
+
+export type ProjectSpec = {
+  agentName: string;
+  description?: string;
+  capabilities: string[];
+};
+
+/** A spec plus the agent name in the forms templates need. */
+export type Project = ProjectSpec & {
+  /** As given, e.g. `Weather Helper` */
+  title: string;
+  /** camelCase, for identifiers: `weatherHelper` */
+  id: string;
+  /** PascalCase, for class and project names: `WeatherHelper` */
+  pascal: string;
+  /** kebab-case, for file and package names: `weather-helper` */
+  slug: string;
+};
+
+/** A starter project: one language plus framework, and the files it generates. */
+export type Stack = {
+  id: string;
+  language: string;
+  framework: string;
+  /** Accepted spellings of the language, normalized */
+  languages: string[];
+  /** Accepted spellings of the framework, normalized; the first is the default */
+  frameworks: string[];
+  /** Where the generated agent answers A2A calls, relative to the server */
+  endpoint: (project: Project) => string;
+  files: (project: Project) => ProjectFile[];
+};
+
+// Lowercases and drops punctuation, so "ASP.NET Core" matches "aspnetcore".
+export function normalize(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9#+]/g, "");
+}
+
+function words(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+export function describeProject(spec: ProjectSpec): Project {
+  const parts = words(spec.agentName);
+  if (parts.length === 0 || !/^[a-z]/.test(parts[0])) {
+    throw new Error(
+      `Agent name '${spec.agentName}' must start with a letter, e.g. "Weather Helper"`
+    );
+  }
+
+  const capitalized = parts.map((word) => word[0].toUpperCase() + word.slice(1));
+  return {
+    ...spec,
+    title: spec.agentName.trim(),
+    id: parts[0] + capitalized.slice(1).join(""),
+    pascal: capitalized.join(""),
+    slug: parts.join("-"),
+  };
+}
+
+/**
+ * Finds the stack for a language and (optional) framework, or throws an error
+ * listing what is available.
+ */
+export function resolveStack(stacks: Stack[], language: string, framework?: string) {
+  const forLanguage = stacks.filter((stack) => stack.languages.includes(normalize(language)));
+  if (forLanguage.length === 0) {
+    const available = stacks.map((stack) => `${stack.language} (${stack.framework})`);
+    throw new Error(
+      `No starter project for '${language}'; available: ${available.join(", ")}`
+    );
+  }
+  if (!framework) return forLanguage[0];
+
+  const stack = forLanguage.find((candidate) =>
+    candidate.frameworks.includes(normalize(framework))
+  );
+  if (!stack) {
+    const available = forLanguage.map((candidate) => candidate.framework);
+    throw new Error(
+      `No ${forLanguage[0].language} starter for '${framework}'; available: ${available.join(", ")}`
+    );
+  }
+  return stack;
+}
+
+/** Packs the files into a zip under a top-level `<slug>/` folder, base64-encoded. */
+export function zipProject(project: Pick<Project, "slug">, files: ProjectFile[]) {
+  const entries = Object.fromEntries(
+    files.map(({ path, content }) => [`${project.slug}/${path}`, strToU8(content)])
+  );
+  return {
+    name: `${project.slug}.zip`,
+    mimeType: "application/zip",
+    bytes: Buffer.from(zipSync(entries, { level: 6 })).toString("base64"),
+  };
+}
+
+// Escapes text for use inside a JS template literal in generated code.
+export function templateLiteral(text: string) {
+  return text.replace(/[`\\]/g, "\\$&").replace(/\$\{/g, "\\${");
+}
+
+// Markdown bullet list of capabilities, or a placeholder.
+export function capabilityList(project: Project) {
+  return project.capabilities.length > 0
+    ? project.capabilities.map((capability) => `- ${capability}`).join("\n")
+    : "- (describe what your agent does)";
+}
+
+type ReadmeOptions = {
+  /** Shell commands to install dependencies and start the server locally */
+  commands: string;
+  port: number;
+  /** Telex node type for the workflow snippet */
+  nodeType: "a2a/mastra-a2a-node" | "a2a/generic-node";
+  /** Extra markdown, e.g. deployment notes */
+  notes?: string;
+};
+
+// README shared by every stack: what the agent does, how to run, test and connect it.
+export function projectReadme(project: Project, stack: Stack, options: ReadmeOptions) {
+  const endpoint = stack.endpoint(project);
+  const node = {
+    id: `${project.slug.replaceAll("-", "_")}_node`,
+    name: project.title,
+    type: options.nodeType,
+    url: `https://your-domain.com${endpoint}`,
+    position: [400, 200],
+  };
+
+  return `# ${project.title}
+
+${project.description || `A Telex.im agent built with ${stack.framework} (${stack.language}).`}
+
+## Capabilities
+
+${capabilityList(project)}
+
+## Getting Started
+
+\`\`\`bash
+${options.commands}
+\`\`\`
+
+The A2A endpoint is \`http://localhost:${options.port}${endpoint}\`.
+
+## Test It
+
+\`\`\`bash
+curl -X POST http://localhost:${options.port}${endpoint} \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "jsonrpc": "2.0",
+    "id": "req-001",
+    "method": "message/send",
+    "params": {
+      "message": {
+        "kind": "message",
+        "role": "user",
+        "parts": [{ "kind": "text", "text": "Hello!" }],
+        "messageId": "msg-001"
+      }
+    }
+  }'
+\`\`\`
+${options.notes ? `\n${options.notes}\n` : ""}
+## Connect to Telex
+
+Deploy the agent somewhere public, then add it to a Telex workflow:
+
+\`\`\`json
+${JSON.stringify(node, null, 2)}
+\`\`\`
+`;
+}
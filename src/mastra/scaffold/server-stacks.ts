@@ -0,0 +1,326 @@
+import { guideIndex } from "../knowledge/guides";
+import { projectReadme, type Project, type ProjectFile, type Stack } from "./project";
+
+type ServerStack = Omit<Stack, "endpoint" | "files"> & {
+  /** Guide whose `<!-- example -->` server becomes the main source file */
+  guide: string;
+  /** Where that file goes in the project */
+  main: string;
+  port: number;
+  /** Function in the main file that holds the agent logic */
+  reply: string;
+  /** Install and run commands for the README */
+  commands: string;
+  /** Build and packaging files: dependencies, Dockerfile, ... */
+  packaging: (project: Project) => ProjectFile[];
+};
+
+const gitignores: Record<string, string> = {
+  python: ".venv\n__pycache__\n*.pyc\n.env\n",
+  go: "/bin\n.env\n",
+  java: "target\n.env\n",
+  php: "vendor\n.env\n",
+  rust: "target\n.env\n",
+  csharp: "bin\nobj\n.env\n",
+};
+
+const envExample = (port: number) => `# Port the server listens on
+PORT=${port}
+
+# Key for the model your agent logic calls, if any
+OPENAI_API_KEY=
+`;
+
+const serverStacks: ServerStack[] = [
+  {
+    id: "python",
+    language: "Python",
+    framework: "FastAPI",
+    languages: ["python", "py"],
+    frameworks: ["fastapi"],
+    guide: "python-fastapi-setup",
+    main: "main.py",
+    reply: "process_message",
+    port: 8000,
+    commands:
+      "python -m venv .venv && source .venv/bin/activate\npip install -r requirements.txt\nuvicorn main:app --reload --port 8000",
+    packaging: () => [
+      { path: "requirements.txt", content: "fastapi>=0.110\nuvicorn[standard]>=0.29\npydantic>=2.6\n" },
+      {
+        path: "Dockerfile",
+        content: `FROM python:3.12-slim
+WORKDIR /app
+COPY requirements.txt .
+RUN pip install --no-cache-dir -r requirements.txt
+COPY . .
+ENV PORT=8000
+CMD uvicorn main:app --host 0.0.0.0 --port $PORT
+`,
+      },
+    ],
+  },
+  {
+    id: "go",
+    language: "Go",
+    framework: "net/http",
+    languages: ["go", "golang"],
+    frameworks: ["nethttp", "http", "stdlib"],
+    guide: "go",
+    main: "main.go",
+    reply: "reply",
+    port: 8080,
+    commands: "go run .",
+    packaging: ({ slug }) => [
+      { path: "go.mod", content: `module example.com/${slug}\n\ngo 1.22\n` },
+      {
+        path: "Dockerfile",
+        content: `FROM golang:1.22 AS build
+WORKDIR /src
+COPY . .
+RUN CGO_ENABLED=0 go build -o /agent .
+
+FROM gcr.io/distroless/static-debian12
+COPY --from=build /agent /agent
+ENV PORT=8080
+CMD ["/agent"]
+`,
+      },
+    ],
+  },
+  {
+    id: "java",
+    language: "Java",
+    framework: "Spring Boot",
+    languages: ["java"],
+    frameworks: ["springboot", "spring"],
+    guide: "java",
+    main: "src/main/java/com/example/agent/AgentApplication.java",
+    reply: "reply",
+    port: 8080,
+    commands: "mvn spring-boot:run",
+    packaging: ({ slug, title, description }) => [
+      {
+        path: "pom.xml",
+        content: `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 https://maven.apache.org/xsd/maven-4.0.0.xsd">
+  <modelVersion>4.0.0</modelVersion>
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+    <version>3.3.5</version>
+    <relativePath/>
+  </parent>
+  <groupId>com.example</groupId>
+  <artifactId>${slug}</artifactId>
+  <version>0.0.1-SNAPSHOT</version>
+  <name>${xml(title)}</name>
+  <description>${xml(description ?? "A Telex.im agent")}</description>
+  <properties>
+    <java.version>17</java.version>
+  </properties>
+  <dependencies>
+    <dependency>
+      <groupId>org.springframework.boot</groupId>
+      <artifactId>spring-boot-starter-web</artifactId>
+    </dependency>
+  </dependencies>
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.springframework.boot</groupId>
+        <artifactId>spring-boot-maven-plugin</artifactId>
+      </plugin>
+    </plugins>
+  </build>
+</project>
+`,
+      },
+      {
+        path: "src/main/resources/application.properties",
+        content: "server.port=${PORT:8080}\n",
+      },
+      {
+        path: "Dockerfile",
+        content: `FROM maven:3.9-eclipse-temurin-17 AS build
+WORKDIR /src
+COPY . .
+RUN mvn -q package -DskipTests
+
+FROM eclipse-temurin:17-jre
+COPY --from=build /src/target/${slug}-0.0.1-SNAPSHOT.jar /app.jar
+ENV PORT=8080
+CMD ["java", "-jar", "/app.jar"]
+`,
+      },
+    ],
+  },
+  {
+    id: "php",
+    language: "PHP",
+    framework: "Slim",
+    languages: ["php"],
+    frameworks: ["slim", "slim4"],
+    guide: "php",
+    main: "public/index.php",
+    reply: "reply",
+    port: 8080,
+    commands: "composer install\nphp -S 0.0.0.0:8080 -t public",
+    packaging: ({ slug, description }) => [
+      {
+        path: "composer.json",
+        content: `${JSON.stringify(
+          {
+            name: `example/${slug}`,
+            description: description ?? "A Telex.im agent",
+            type: "project",
+            require: { php: ">=8.1", "slim/slim": "^4.0", "slim/psr7": "^1.6" },
+          },
+          null,
+          2
+        )}\n`,
+      },
+      {
+        path: "Dockerfile",
+        content: `FROM composer:2 AS deps
+WORKDIR /app
+COPY composer.json .
+RUN composer install --no-dev --no-interaction
+
+FROM php:8.3-cli
+WORKDIR /app
+COPY --from=deps /app/vendor vendor
+COPY . .
+ENV PORT=8080
+CMD php -S 0.0.0.0:$PORT -t public
+`,
+      },
+    ],
+  },
+  {
+    id: "rust",
+    language: "Rust",
+    framework: "Axum",
+    languages: ["rust"],
+    frameworks: ["axum"],
+    guide: "rust",
+    main: "src/main.rs",
+    reply: "reply",
+    port: 8080,
+    commands: "cargo run",
+    packaging: ({ slug }) => [
+      {
+        path: "Cargo.toml",
+        content: `[package]
+name = "${slug}"
+version = "0.1.0"
+edition = "2021"
+
+[dependencies]
+axum = "0.7"
+chrono = "0.4"
+serde = { version = "1", features = ["derive"] }
+serde_json = "1"
+tokio = { version = "1", features = ["full"] }
+uuid = { version = "1", features = ["v4"] }
+`,
+      },
+      {
+        path: "Dockerfile",
+        content: `FROM rust:1-bookworm AS build
+WORKDIR /src
+COPY . .
+RUN cargo build --release
+
+FROM debian:bookworm-slim
+COPY --from=build /src/target/release/${slug} /agent
+ENV PORT=8080
+CMD ["/agent"]
+`,
+      },
+    ],
+  },
+  {
+    id: "csharp",
+    language: "C#",
+    framework: "ASP.NET Core",
+    languages: ["c#", "csharp", "dotnet"],
+    frameworks: ["aspnetcore", "aspnet", "minimalapi"],
+    guide: "csharp",
+    main: "Program.cs",
+    reply: "Reply",
+    port: 8080,
+    commands: "dotnet run --urls http://localhost:8080",
+    packaging: ({ pascal }) => [
+      {
+        path: `${pascal}.csproj`,
+        content: `<Project Sdk="Microsoft.NET.Sdk.Web">
+
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Nullable>enable</Nullable>
+    <ImplicitUsings>enable</ImplicitUsings>
+  </PropertyGroup>
+
+</Project>
+`,
+      },
+      {
+        path: "Dockerfile",
+        content: `FROM mcr.microsoft.com/dotnet/sdk:8.0 AS build
+WORKDIR /src
+COPY . .
+RUN dotnet publish -c Release -o /app
+
+FROM mcr.microsoft.com/dotnet/aspnet:8.0
+WORKDIR /app
+COPY --from=build /app .
+ENV ASPNETCORE_HTTP_PORTS=8080
+CMD ["dotnet", "${pascal}.dll"]
+`,
+      },
+    ],
+  },
+];
+
+function xml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// The server code is the guide's own example, so it stays in step with the
+// guide and with the checks `loadGuides` runs on it.
+function toStack(server: ServerStack): Stack {
+  const stack: Stack = {
+    id: server.id,
+    language: server.language,
+    framework: server.framework,
+    languages: server.languages,
+    frameworks: server.frameworks,
+    endpoint: ({ id }) => `/a2a/agent/${id}`,
+    files(project) {
+      const example = guideIndex.get(server.guide).example;
+      if (!example) {
+        throw new Error(`Guide '${server.guide}' has no example server for the ${server.language} starter`);
+      }
+      return [
+        ...server.packaging(project),
+        { path: server.main, content: `${example}\n` },
+        { path: ".env.example", content: envExample(server.port) },
+        { path: ".gitignore", content: gitignores[server.id] },
+        {
+          path: "README.md",
+          content: projectReadme(project, stack, {
+            commands: server.commands,
+            port: server.port,
+            nodeType: "a2a/generic-node",
+            notes: `Your agent logic goes in the \`${server.reply}\` function of \`${server.main}\`; the rest of the file speaks A2A. The Dockerfile builds an image that listens on \`$PORT\`.`,
+          }),
+        },
+      ];
+    },
+  };
+  return stack;
+}
+
+export const stacks = serverStacks.map(toStack);
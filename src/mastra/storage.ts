@@ -0,0 +1,21 @@
+import { createClient } from "@libsql/client";
+import { LibSQLStore, LibSQLVector } from "@mastra/libsql";
+
+// One LibSQL connection shared by Mastra's storage (agent memory and workflow
+// snapshots) and our own A2A tables. A file or remote database keeps
+// suspended workflows and open tasks across restarts.
+export const libsqlClient = createClient({
+  url: process.env.LIBSQL_URL || "file:./mastra.db",
+  authToken: process.env.LIBSQL_AUTH_TOKEN,
+});
+
+export const storage = new LibSQLStore({
+  client: libsqlClient,
+});
+
+// Vector index for guide search, rebuilt from the guides on startup. It needs a
+// file (or remote) database: LibSQLVector writes in transactions, which open a
+// fresh, empty connection on `:memory:`.
+export const vectorStore = new LibSQLVector({
+  connectionUrl: process.env.LIBSQL_VECTOR_URL || "file:./mastra-vectors.db",
+});
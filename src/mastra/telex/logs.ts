@@ -0,0 +1,245 @@
+import { guideIndex, type GuideSectionRef } from "../knowledge/guides";
+
+// Where Telex serves a channel's agent log: `<base>/<channel-id>.txt`. Point it
+// at a local stub to work offline. Only the environment sets it, never a tool
+// call, so a prompt can't make the server fetch arbitrary URLs.
+const LOGS_BASE_URL =
+  process.env.TELEX_LOGS_BASE_URL || "https://api.telex.im/agent-logs";
+const FETCH_TIMEOUT_MS = 15_000;
+
+export const logIssueCategories = [
+  "timeout",
+  "http-status",
+  "invalid-jsonrpc",
+  "schema-mismatch",
+  "unreachable",
+  "other-error",
+] as const;
+
+export type LogIssueCategory = (typeof logIssueCategories)[number];
+
+export type LogEntry = {
+  /** 1-based line the entry starts on */
+  line: number;
+  timestamp?: string;
+  level?: string;
+  message: string;
+  status?: number;
+  durationMs?: number;
+  /** JSON-RPC error code mentioned in the entry */
+  errorCode?: number;
+  url?: string;
+  category?: LogIssueCategory;
+};
+
+export type LogIssueSummary = {
+  category: LogIssueCategory;
+  count: number;
+  firstLine: number;
+  lastTimestamp?: string;
+  example: string;
+  fix: string;
+  /** Guide section that explains the fix */
+  guide: GuideSectionRef;
+};
+
+const TIMESTAMP =
+  /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*/;
+const LEVEL = /^\[?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\]?:?\s*/i;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function pick(value: Record<string, unknown>, ...keys: string[]) {
+  for (const key of keys) {
+    if (value[key] !== undefined && value[key] !== null) return value[key];
+  }
+  return undefined;
+}
+
+// Pulls status codes, durations, URLs and JSON-RPC codes out of free text.
+function details(text: string): Omit<LogEntry, "line" | "message"> {
+  const status = text.match(
+    /\b(?:status(?:[ _]?code)?["']?\s*[:=]?\s*|HTTP\/?\d?(?:\.\d)?\s+|responded with\s+|returned\s+|(?:GET|POST|PUT|DELETE)\s+\S+\s+)([1-5]\d{2})\b/i
+  )?.[1];
+  const duration = text.match(/\b(\d+(?:\.\d+)?)\s*ms\b/i)?.[1];
+  const code = text.match(/(?<![\d.])(-32\d{3})\b/)?.[1];
+  const url = text.match(/https?:\/\/[^\s"'<>),]+/)?.[0];
+  return {
+    ...(status && { status: Number(status) }),
+    ...(duration && { durationMs: Math.round(Number(duration)) }),
+    ...(code && { errorCode: Number(code) }),
+    ...(url && { url }),
+  };
+}
+
+function fromJson(line: number, value: Record<string, unknown>): LogEntry {
+  const message = String(pick(value, "message", "msg", "error", "event") ?? JSON.stringify(value));
+  const status = Number(pick(value, "status", "statusCode", "status_code"));
+  const duration = Number(pick(value, "durationMs", "duration_ms", "duration", "latency"));
+  const error = pick(value, "error");
+  const code = Number((isObject(error) ? error.code : undefined) ?? pick(value, "errorCode", "code"));
+  const url = pick(value, "url", "agentUrl", "agent_url");
+  const level = pick(value, "level", "severity");
+  const timestamp = pick(value, "timestamp", "time", "ts", "date");
+  return {
+    ...details(message),
+    line,
+    message,
+    ...(typeof timestamp === "string" && { timestamp }),
+    ...(typeof level === "string" && { level: level.toUpperCase() }),
+    ...(status >= 100 && status <= 599 && { status }),
+    ...(Number.isFinite(duration) && { durationMs: Math.round(duration) }),
+    ...(code <= -32000 && code >= -32768 && { errorCode: code }),
+    ...(typeof url === "string" && { url }),
+  };
+}
+
+function fromText(line: number, text: string): LogEntry {
+  let rest = text.trim();
+  const timestamp = rest.match(TIMESTAMP);
+  if (timestamp) rest = rest.slice(timestamp[0].length);
+  const level = rest.match(LEVEL);
+  if (level) rest = rest.slice(level[0].length);
+  return {
+    line,
+    ...(timestamp && { timestamp: timestamp[1] }),
+    ...(level && { level: level[1].toUpperCase().replace("WARNING", "WARN") }),
+    message: rest,
+    ...details(rest),
+  };
+}
+
+/** What went wrong in an entry, if anything. */
+export function categorize(entry: Omit<LogEntry, "category">): LogIssueCategory | undefined {
+  const text = entry.message;
+  if (/ECONNREFUSED|ENOTFOUND|EAI_AGAIN|getaddrinfo|certificate|unreachable|connection (refused|reset)/i.test(text)) {
+    return "unreachable";
+  }
+  if (/time[ds]?[ -]?out|deadline exceeded|ETIMEDOUT|took too long/i.test(text)) return "timeout";
+  if (
+    entry.errorCode === -32602 ||
+    /schema|validation (error|failed)|missing (required )?(field|property)|expected .+ (but )?(got|received)|invalid (params|result|response|task)/i.test(
+      text
+    )
+  ) {
+    return "schema-mismatch";
+  }
+  if (
+    entry.errorCode === -32700 ||
+    entry.errorCode === -32600 ||
+    /json-?rpc|invalid json|not valid json|parse error|unexpected token|unexpected end of json/i.test(text)
+  ) {
+    return "invalid-jsonrpc";
+  }
+  if (entry.status !== undefined && (entry.status < 200 || entry.status >= 300)) {
+    return "http-status";
+  }
+  if (entry.level === "ERROR" || entry.level === "FATAL" || entry.errorCode !== undefined) {
+    return "other-error";
+  }
+  return undefined;
+}
+
+/**
+ * Splits a Telex agent log into entries. Lines may be JSON objects or plain
+ * text with an optional timestamp and level. Indented lines (stack traces,
+ * bodies) belong to the entry above, as do unstamped lines in a stamped log.
+ */
+export function parseLog(text: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+
+    const trimmed = raw.trim();
+    if (trimmed.startsWith("{")) {
+      try {
+        entries.push(fromJson(line, JSON.parse(trimmed)));
+        return;
+      } catch {
+        // A JSON body printed across lines; treat it as text
+      }
+    }
+
+    // In a timestamped log, a line without one continues the entry above
+    const previous = entries.at(-1);
+    const continues =
+      /^\s/.test(raw) ||
+      (previous?.timestamp !== undefined && !TIMESTAMP.test(trimmed) && !LEVEL.test(trimmed));
+    if (previous && continues) {
+      previous.message += `\n${trimmed}`;
+      Object.assign(previous, { ...details(trimmed), ...previous });
+      return;
+    }
+    entries.push(fromText(line, raw));
+  });
+
+  return entries.map((entry) => {
+    const category = categorize(entry);
+    return category ? { ...entry, category } : entry;
+  });
+}
+
+// A fix for each kind of problem, pointing at the guide section that covers
+// it. Resolved on load so a renamed heading fails loudly.
+const fixes: Record<LogIssueCategory, { fix: string; guide: GuideSectionRef }> = {
+  timeout: {
+    fix: "Telex gave up waiting. Answer within about 30 seconds: set timeouts on model and API calls, and move slow work to the background (return a `working` task and finish it later).",
+    guide: guideIndex.section("telex-integration", "Troubleshooting"),
+  },
+  "http-status": {
+    fix: "The endpoint answered with a non-2xx status. A 404 means the workflow node's URL doesn't match your route, 401/403 that Telex can't authenticate, 405 that the route isn't POST, and 5xx that the server crashed; even then, answer with a JSON-RPC error object rather than an empty or HTML body.",
+    guide: guideIndex.section("telex-integration", "Error Handling"),
+  },
+  "invalid-jsonrpc": {
+    fix: 'The response was not a JSON-RPC 2.0 message. Always return JSON with `"jsonrpc": "2.0"`, the request\'s `id`, and either a `result` task or an `error` object; never an HTML error page or plain text.',
+    guide: guideIndex.section("a2a-protocol", "2. Response Format"),
+  },
+  "schema-mismatch": {
+    fix: "Part of a request or response didn't match the A2A schema. Compare your task against the documented shape: `kind: \"task\"`, `id`, `contextId`, `status.state`, and `parts` with a `kind` of text, data or file.",
+    guide: guideIndex.section("a2a-protocol", "2. Response Format"),
+  },
+  unreachable: {
+    fix: "Telex could not reach the endpoint. Deploy it on a public https URL (not localhost), check DNS and TLS certificates, and make sure the service is running.",
+    guide: guideIndex.section("telex-integration", "2. Deploy Your Agent"),
+  },
+  "other-error": {
+    fix: "The agent reported an error. Read the message and the lines around it; failures inside the agent should come back as a JSON-RPC `-32603` error with the request's id.",
+    guide: guideIndex.section("a2a-protocol", "3. Errors"),
+  },
+};
+
+/** Groups problem entries by category, most frequent first. */
+export function summarizeLog(entries: LogEntry[]): LogIssueSummary[] {
+  const groups = new Map<LogIssueCategory, LogEntry[]>();
+  for (const entry of entries) {
+    if (entry.category) groups.set(entry.category, [...(groups.get(entry.category) ?? []), entry]);
+  }
+  return [...groups.entries()]
+    .map(([category, matching]) => ({
+      category,
+      count: matching.length,
+      firstLine: matching[0].line,
+      ...(matching.at(-1)!.timestamp && { lastTimestamp: matching.at(-1)!.timestamp }),
+      example: matching.at(-1)!.message.split("\n")[0].slice(0, 300),
+      ...fixes[category],
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Downloads a channel's agent log as text. */
+export async function fetchAgentLog(channelId: string) {
+  if (!/^[A-Za-z0-9_-]+$/.test(channelId)) {
+    throw new Error(`'${channelId}' is not a channel id (letters, digits, - and _ only)`);
+  }
+  const url = `${LOGS_BASE_URL.replace(/\/+$/, "")}/${channelId}.txt`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (response.status === 404) {
+    throw new Error(`No agent log for channel '${channelId}' at ${url}; check the channel id`);
+  }
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed with HTTP ${response.status}`);
+  }
+  return { url, text: await response.text() };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { formatWorkflowIssue, generateWorkflow, validateWorkflow } from "./workflow";
+
+const node = (id: string, url = `https://agents.example.com/a2a/agent/${id}`) => ({
+  id,
+  name: id,
+  type: "a2a/mastra-a2a-node",
+  typeVersion: 1,
+  url,
+  position: [400, 200],
+});
+
+// Pretty-printed the way users paste workflows, so every field has its own line
+const json = (workflow: object) => JSON.stringify(workflow, null, 2);
+
+const messages = (text: string) => validateWorkflow(text).issues.map(formatWorkflowIssue);
+
+// The line of the nth line of `text` containing `snippet`, to check reported
+// lines against the text rather than counting them by hand
+function lineOf(text: string, snippet: string, occurrence = 1) {
+  let seen = 0;
+  return text.split("\n").findIndex((line) => line.includes(snippet) && ++seen === occurrence) + 1;
+}
+
+describe("validateWorkflow", () => {
+  it("accepts a generated workflow", () => {
+    const workflow = generateWorkflow({
+      agentName: "Weather Helper",
+      url: "https://agents.example.com/a2a/agent/weatherHelper",
+    });
+
+    expect(validateWorkflow(json(workflow))).toEqual({ valid: true, issues: [], workflow });
+  });
+
+  it("reports schema errors on the line of the field, or of the object missing it", () => {
+    const { name: _name, ...unnamed } = node("writer");
+    const text = json({
+      name: "pipeline",
+      nodes: [node("reader"), { ...unnamed, type: "a2a/other-node" }],
+    });
+
+    // The missing name is reported on the line that opens the second node
+    expect(messages(text)).toEqual([
+      `line ${lineOf(text, "{", 3)}: workflow.nodes[1].name: required field is missing`,
+      `line ${lineOf(text, "a2a/other-node")}: workflow.nodes[1].type: must be one of a2a/mastra-a2a-node, a2a/generic-node`,
+    ]);
+    expect(validateWorkflow(text).valid).toBe(false);
+    expect(validateWorkflow(text)).not.toHaveProperty("workflow");
+  });
+
+  it("reports invalid JSON on the line it breaks", () => {
+    // A missing comma: JSON.parse stops at the start of line 3
+    const [issue] = validateWorkflow('{\n  "name": "pipeline"\n  "nodes": []\n}').issues;
+
+    expect(issue).toMatchObject({ line: 3, path: "workflow", severity: "error" });
+    expect(issue.message).toMatch(/^invalid JSON: /);
+  });
+
+  it("rejects duplicate node ids, naming the first use", () => {
+    const text = json({ name: "pipeline", nodes: [node("reader"), node("writer"), node("reader")] });
+
+    expect(messages(text)).toEqual([
+      `line ${lineOf(text, '"id": "reader"', 2)}: workflow.nodes[2].id: duplicate node id 'reader' (also used by nodes[0])`,
+    ]);
+    expect(validateWorkflow(text).valid).toBe(false);
+  });
+
+  it("rejects connections to nodes that don't exist, or from a node to itself", () => {
+    const text = json({
+      name: "pipeline",
+      nodes: [node("reader")],
+      connections: [
+        { source: "reader", target: "writer" },
+        { source: "reader", target: "reader" },
+      ],
+    });
+
+    // The self-connection is reported on the line that opens connections[1]
+    expect(messages(text)).toEqual([
+      `line ${lineOf(text, '"target": "writer"')}: workflow.connections[0].target: 'writer' is not the id of any node`,
+      `line ${lineOf(text, '"source": "reader"', 2) - 1}: workflow.connections[1]: node 'reader' is connected to itself`,
+    ]);
+  });
+
+  it("checks connections even when the nodes fail the schema", () => {
+    const text = json({
+      name: "pipeline",
+      nodes: [null, { id: "reader" }],
+      connections: [{}, { source: "writer" }],
+    });
+
+    expect(messages(text)).toContain(
+      `line ${lineOf(text, '"source": "writer"')}: workflow.connections[1].source: 'writer' is not the id of any node`
+    );
+  });
+
+  it("warns about URLs Telex can't reach, without failing the workflow", () => {
+    const text = json({
+      name: "pipeline",
+      nodes: [
+        node("local", "http://localhost:4111/a2a/agent/local"),
+        node("loopback", "http://127.0.0.1:4111/a2a/agent/loopback"),
+        node("plain", "http://agents.example.com/a2a/agent/plain"),
+        node("other", "https://agents.example.com/api/other"),
+      ],
+    });
+
+    expect(validateWorkflow(text).valid).toBe(true);
+    expect(messages(text)).toEqual([
+      `line ${lineOf(text, "localhost")}: warning: workflow.nodes[0].url: 'localhost:4111' is only reachable from your machine; Telex needs a public URL`,
+      `line ${lineOf(text, "127.0.0.1")}: warning: workflow.nodes[1].url: '127.0.0.1:4111' is only reachable from your machine; Telex needs a public URL`,
+      `line ${lineOf(text, "http://agents")}: warning: workflow.nodes[2].url: uses http; deployed agents should be served over https`,
+      `line ${lineOf(text, "/api/other")}: warning: workflow.nodes[3].url: does not look like an A2A endpoint (expected a path like /a2a/agent/myAgent)`,
+    ]);
+  });
+});
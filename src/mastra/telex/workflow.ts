@@ -0,0 +1,304 @@
+import { z } from "zod";
+import { formatIssues } from "../a2a/schemas";
+
+// Zod schemas for Telex workflow definitions, as shown in the
+// workflow-examples guide: a named workflow with agent nodes, optionally
+// chained together by `connections`.
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const telexNodeTypes = ["a2a/mastra-a2a-node", "a2a/generic-node"] as const;
+
+const httpUrlSchema = z.url({
+  protocol: /^https?$/,
+  error: "must be an http(s) URL, e.g. https://your-app.com/a2a/agent/myAgent",
+});
+
+export const telexNodeSchema = z.object({
+  id: z.string().min(1, "node id must not be empty"),
+  name: z.string().min(1, "node name must not be empty"),
+  type: z.enum(telexNodeTypes, {
+    error: `must be one of ${telexNodeTypes.join(", ")}`,
+  }),
+  typeVersion: z.number().int().positive().optional(),
+  url: httpUrlSchema,
+  position: z.tuple([z.number(), z.number()], {
+    error: "must be an [x, y] pair of numbers",
+  }),
+});
+
+export const telexConnectionSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+});
+
+export const telexWorkflowSchema = z.object({
+  active: z.boolean().optional(),
+  category: z.string().optional(),
+  description: z.string().optional(),
+  id: z.string().optional(),
+  name: z.string().min(1, "workflow name must not be empty"),
+  short_description: z.string().optional(),
+  nodes: z.array(telexNodeSchema).min(1, "a workflow needs at least one node"),
+  connections: z.array(telexConnectionSchema).optional(),
+  settings: z.object({ executionOrder: z.string() }).partial().optional(),
+});
+
+export type TelexNode = z.infer<typeof telexNodeSchema>;
+export type TelexConnection = z.infer<typeof telexConnectionSchema>;
+export type TelexWorkflow = z.infer<typeof telexWorkflowSchema>;
+
+export type WorkflowIssue = {
+  /** 1-based line in the JSON text, when the issue can be placed */
+  line?: number;
+  path: string;
+  message: string;
+  severity: "error" | "warning";
+};
+
+export type WorkflowSpec = {
+  agentName: string;
+  url: string;
+  nodeType?: (typeof telexNodeTypes)[number];
+  category?: string;
+  description?: string;
+};
+
+// `Weather Helper` -> `weather_helper`, the style of the guide examples.
+function snakeCase(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+/** Builds a one-node workflow for an agent, ready to paste into Telex. */
+export function generateWorkflow(spec: WorkflowSpec): TelexWorkflow {
+  const name = snakeCase(spec.agentName) || "my_agent";
+  return {
+    active: true,
+    category: spec.category || "developer-tools",
+    description: spec.description || `${spec.agentName} agent`,
+    id: `${name.replaceAll("_", "-")}-workflow`,
+    name,
+    nodes: [
+      {
+        id: `${name}_node`,
+        name: spec.agentName,
+        type: spec.nodeType ?? "a2a/mastra-a2a-node",
+        typeVersion: 1,
+        url: spec.url,
+        position: [400, 200],
+      },
+    ],
+    settings: { executionOrder: "v1" },
+  };
+}
+
+/**
+ * Maps every value in a JSON document to the line it starts on (for object
+ * properties, the line of the key), keyed by paths in `formatIssues` style:
+ * `workflow.nodes[0].url`. Expects text that JSON.parse accepts.
+ */
+export function jsonLines(text: string, root: string) {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skip = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === "\n") line++;
+      pos++;
+    }
+  };
+  const string = () => {
+    const start = pos;
+    for (pos++; text[pos] !== '"'; pos++) if (text[pos] === "\\") pos++;
+    pos++;
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+  const value = (path: string, at = line) => {
+    skip();
+    if (!lines.has(path)) lines.set(path, at);
+    const open = text[pos];
+    if (open === "{" || open === "[") {
+      pos++;
+      skip();
+      for (let index = 0; text[pos] !== (open === "{" ? "}" : "]"); index++) {
+        if (open === "{") {
+          const keyLine = line;
+          const key = string();
+          skip();
+          pos++; // ':'
+          value(`${path}.${key}`, keyLine);
+        } else {
+          skip();
+          value(`${path}[${index}]`, line);
+        }
+        skip();
+        if (text[pos] === ",") pos++;
+        skip();
+      }
+      pos++;
+    } else if (open === '"') {
+      string();
+    } else {
+      while (pos < text.length && /[^\s,\]}]/.test(text[pos])) pos++;
+    }
+  };
+
+  value(root);
+  return lines;
+}
+
+// Nearest located ancestor of a path, so an issue about a missing field
+// points at the object it is missing from.
+function lineOf(lines: Map<string, number>, path: string) {
+  for (let current = path; ; ) {
+    const line = lines.get(current);
+    if (line !== undefined) return line;
+    const parent = current.replace(/(\.[^.[\]]+|\[\d+\])$/, "");
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+function parseError(text: string, error: Error): WorkflowIssue {
+  const position = Number(error.message.match(/position (\d+)/)?.[1]);
+  const line = Number.isNaN(position)
+    ? undefined
+    : text.slice(0, position).split("\n").length;
+  return {
+    ...(line && { line }),
+    path: "workflow",
+    message: `invalid JSON: ${error.message}`,
+    severity: "error",
+  };
+}
+
+// A schema type's fields as pasted, before the schema has checked any of them.
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+// Entries of an array field that might not be an array of objects; anything
+// else counts as an object without fields, so indexes still match the JSON.
+function uncheckedItems(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map((item) => (isObject(item) ? item : {})) : [];
+}
+
+// Checks the schema can't express: unique ids, connections between real
+// nodes, and URLs Telex can actually reach.
+function crossCheck(workflow: Unchecked<TelexWorkflow>): Omit<WorkflowIssue, "line">[] {
+  const issues: Omit<WorkflowIssue, "line">[] = [];
+  const nodes: Unchecked<TelexNode>[] = uncheckedItems(workflow.nodes);
+  const firstIndex = new Map<string, number>();
+
+  nodes.forEach((node, index) => {
+    if (typeof node.id !== "string") return;
+    const first = firstIndex.get(node.id);
+    if (first === undefined) {
+      firstIndex.set(node.id, index);
+    } else {
+      issues.push({
+        path: `workflow.nodes[${index}].id`,
+        message: `duplicate node id '${node.id}' (also used by nodes[${first}])`,
+        severity: "error",
+      });
+    }
+
+    if (typeof node.url === "string" && URL.canParse(node.url)) {
+      const url = new URL(node.url);
+      if (/^(localhost|127\.|0\.0\.0\.0|\[::1\])/.test(url.hostname)) {
+        issues.push({
+          path: `workflow.nodes[${index}].url`,
+          message: `'${url.host}' is only reachable from your machine; Telex needs a public URL`,
+          severity: "warning",
+        });
+      } else if (url.protocol === "http:") {
+        issues.push({
+          path: `workflow.nodes[${index}].url`,
+          message: "uses http; deployed agents should be served over https",
+          severity: "warning",
+        });
+      }
+      if (!url.pathname.includes("/a2a/")) {
+        issues.push({
+          path: `workflow.nodes[${index}].url`,
+          message: "does not look like an A2A endpoint (expected a path like /a2a/agent/myAgent)",
+          severity: "warning",
+        });
+      }
+    }
+  });
+
+  const connections: Unchecked<TelexConnection>[] = uncheckedItems(workflow.connections);
+  connections.forEach((connection, index) => {
+    for (const end of ["source", "target"] as const) {
+      const id = connection[end];
+      if (typeof id === "string" && !firstIndex.has(id)) {
+        issues.push({
+          path: `workflow.connections[${index}].${end}`,
+          message: `'${id}' is not the id of any node`,
+          severity: "error",
+        });
+      }
+    }
+    if (connection.source && connection.source === connection.target) {
+      issues.push({
+        path: `workflow.connections[${index}]`,
+        message: `node '${connection.source}' is connected to itself`,
+        severity: "error",
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Validates workflow JSON as pasted by a user: JSON syntax, the workflow
+ * schema, duplicate node ids, dangling connections and unreachable URLs.
+ * Issues are sorted by line, e.g.
+ * `line 14: workflow.connections[0].target: 'writer' is not the id of any node`.
+ */
+export function validateWorkflow(text: string) {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { valid: false, issues: [parseError(text, error as Error)] };
+  }
+
+  const issues: Omit<WorkflowIssue, "line">[] = [];
+  const parsed = telexWorkflowSchema.safeParse(value, { reportInput: true });
+  if (!parsed.success) {
+    const { issues: zodIssues } = parsed.error;
+    issues.push(
+      ...formatIssues(parsed.error, "workflow").map((issue, index) => ({
+        ...issue,
+        message:
+          zodIssues[index].code === "invalid_type" && zodIssues[index].input === undefined
+            ? "required field is missing"
+            : issue.message,
+        severity: "error" as const,
+      }))
+    );
+  }
+  if (isObject(value)) {
+    issues.push(...crossCheck(value));
+  }
+
+  const lines = jsonLines(text, "workflow");
+  const located: WorkflowIssue[] = issues
+    .map((issue) => ({ line: lineOf(lines, issue.path), ...issue }))
+    .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return {
+    valid: !located.some((issue) => issue.severity === "error"),
+    issues: located,
+    ...(parsed.success && { workflow: parsed.data }),
+  };
+}
+
+export function formatWorkflowIssue({ line, path, message, severity }: WorkflowIssue) {
+  return `${line ? `line ${line}: ` : ""}${severity === "warning" ? "warning: " : ""}${path}: ${message}`;
+}
@@ -0,0 +1,61 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { conformanceChecks, runConformanceChecks } from "../a2a/conformance";
+
+const checkIds = conformanceChecks.map((check) => check.id);
+
+export const a2aConformanceTool = createTool({
+  id: "a2a-conformance",
+  description:
+    "Tests a developer's deployed A2A agent endpoint the way Telex will call it: empty body, malformed JSON, missing id, unknown method, message/send with text and data parts, a large payload and response time. Reports pass/fail per check with the response that came back. Use it when Telex doesn't respond to their agent.",
+  inputSchema: z.object({
+    url: z
+      .string()
+      .describe("Full A2A endpoint URL, e.g. https://my-app.com/a2a/agent/myAgent"),
+    bearerToken: z
+      .string()
+      .optional()
+      .describe("API key to send as `Authorization: Bearer <key>`, if the endpoint needs one"),
+    checks: z
+      .array(z.string())
+      .optional()
+      .describe(`Checks to run (all by default): ${checkIds.join(", ")}`),
+    timeoutMs: z
+      .number()
+      .int()
+      .positive()
+      .max(120_000)
+      .optional()
+      .describe("How long to wait for each response; Telex allows about 30000"),
+  }),
+  outputSchema: z.object({
+    url: z.string(),
+    passed: z.number(),
+    failed: z.number(),
+    results: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        passed: z.boolean(),
+        message: z.string(),
+        expected: z.string(),
+        observed: z
+          .object({ status: z.number(), contentType: z.string(), body: z.string() })
+          .optional(),
+        durationMs: z.number(),
+      })
+    ),
+  }),
+  execute: async ({ context }) => {
+    const unknown = (context.checks ?? []).filter((id) => !checkIds.includes(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown checks: ${unknown.join(", ")}; available: ${checkIds.join(", ")}`);
+    }
+
+    return runConformanceChecks(context.url, {
+      headers: context.bearerToken ? { Authorization: `Bearer ${context.bearerToken}` } : {},
+      timeoutMs: context.timeoutMs,
+      only: context.checks?.length ? context.checks : undefined,
+    });
+  },
+});
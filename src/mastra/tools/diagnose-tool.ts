@@ -0,0 +1,61 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { diagnosisAreas, diagnosisCatalog } from "../knowledge/diagnoses";
+
+export const diagnoseErrorTool = createTool({
+  id: "diagnose-error",
+  description:
+    "Matches a pasted error message or stack trace against a catalog of known Mastra, Telex and A2A failures (JSON-RPC errors, agent not found, missing API keys, CORS, ES module errors, LibSQL, timeouts, ...) and returns the root cause, fix steps and the guide section that covers it.",
+  inputSchema: z.object({
+    errorText: z
+      .string()
+      .min(1)
+      .describe("The error message, stack trace or log excerpt, pasted as is"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .max(10)
+      .default(3)
+      .describe("How many diagnoses to return, best match first"),
+  }),
+  outputSchema: z.object({
+    diagnoses: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        area: z.enum(diagnosisAreas),
+        cause: z.string(),
+        fix: z.array(z.string()),
+        guide: z
+          .object({ id: z.string(), heading: z.string(), title: z.string() })
+          .optional(),
+        matched: z.array(z.string()).describe("Text in the error that identified it"),
+        line: z.number().describe("Line of the error text where it was found"),
+      })
+    ),
+    note: z.string().optional(),
+  }),
+  execute: async ({ context }) => {
+    const matches = diagnosisCatalog.match(context.errorText).slice(0, context.limit);
+    if (matches.length === 0) {
+      return {
+        diagnoses: [],
+        note: "No known failure matches this error. Ask for the full stack trace and the lines logged just before it, or check the agent log with telexLogsTool.",
+      };
+    }
+
+    return {
+      diagnoses: matches.map(({ diagnosis, matched, line }) => ({
+        id: diagnosis.id,
+        title: diagnosis.title,
+        area: diagnosis.area,
+        cause: diagnosis.cause.trim(),
+        fix: diagnosis.fix,
+        ...(diagnosis.guide && { guide: diagnosis.guide }),
+        matched,
+        line,
+      })),
+    };
+  },
+});
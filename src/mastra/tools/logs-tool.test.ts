@@ -0,0 +1,122 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+// A Telex channel's agent log: one healthy call, then a bit of everything that
+// goes wrong, including a stack trace and a JSON line.
+const log = [
+  "2026-10-19T10:00:00Z INFO POST https://agent.example.com/a2a/agent/helper 200 812ms",
+  "2026-10-19T10:00:05Z ERROR Request timed out after 30000ms",
+  "2026-10-19T10:01:00Z ERROR POST https://agent.example.com/a2a/agent/helper 500",
+  "    at handler (server.js:10:5)",
+  "2026-10-19T10:02:00Z ERROR connect ECONNREFUSED 127.0.0.1:4111",
+  '{"timestamp":"2026-10-19T10:03:00Z","level":"error","message":"Invalid params: message.parts[0].kind","error":{"code":-32602}}',
+  "2026-10-19T10:04:00Z ERROR Response was not valid JSON",
+  "2026-10-19T10:05:00Z WARN Request timed out after 30000ms",
+].join("\n");
+
+// Serves the log above as `chan-1.txt` and 404s everything else. It starts
+// before the tool is imported, which reads the base URL once.
+let requested: string[] = [];
+const server = createServer((req, res) => {
+  requested.push(req.url ?? "");
+  if (req.url === "/agent-logs/chan-1.txt") res.writeHead(200).end(log);
+  else res.writeHead(404).end();
+});
+await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+vi.stubEnv(
+  "TELEX_LOGS_BASE_URL",
+  `http://127.0.0.1:${(server.address() as AddressInfo).port}/agent-logs/`
+);
+
+const { telexLogsTool } = await import("./logs-tool");
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function run(context: { channelId?: string; logText?: string; limit?: number }) {
+  return telexLogsTool.execute!({
+    context: { limit: 20, ...context },
+    runtimeContext: new RuntimeContext(),
+  });
+}
+
+describe("telexLogsTool", () => {
+  it("fetches a channel's log and reports its entries by line", async () => {
+    const result = await run({ channelId: "chan-1" });
+
+    expect(result.source).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/agent-logs\/chan-1\.txt$/);
+    expect(result.totalEntries).toBe(7);
+    expect(result.problemCount).toBe(6);
+    expect(result.problems).toEqual([
+      expect.objectContaining({ line: 2, level: "ERROR", durationMs: 30000, category: "timeout" }),
+      expect.objectContaining({
+        line: 3,
+        timestamp: "2026-10-19T10:01:00Z",
+        status: 500,
+        url: "https://agent.example.com/a2a/agent/helper",
+        message: expect.stringContaining("\nat handler (server.js:10:5)"),
+        category: "http-status",
+      }),
+      expect.objectContaining({ line: 5, category: "unreachable" }),
+      expect.objectContaining({
+        line: 6,
+        level: "ERROR",
+        errorCode: -32602,
+        message: "Invalid params: message.parts[0].kind",
+        category: "schema-mismatch",
+      }),
+      expect.objectContaining({ line: 7, category: "invalid-jsonrpc" }),
+      expect.objectContaining({ line: 8, level: "WARN", category: "timeout" }),
+    ]);
+  });
+
+  it("groups problems by category, most frequent first, each with a fix", async () => {
+    const { summary } = await run({ channelId: "chan-1" });
+
+    expect(summary.map(({ category, count }) => [category, count])).toEqual([
+      ["timeout", 2],
+      ["http-status", 1],
+      ["unreachable", 1],
+      ["schema-mismatch", 1],
+      ["invalid-jsonrpc", 1],
+    ]);
+    expect(summary[0]).toMatchObject({
+      firstLine: 2,
+      lastTimestamp: "2026-10-19T10:05:00Z",
+      example: "Request timed out after 30000ms",
+      guide: { id: "telex-integration", heading: "Troubleshooting" },
+    });
+    for (const { fix } of summary) expect(fix).not.toBe("");
+  });
+
+  it("keeps only the most recent problems up to the limit", async () => {
+    const { problemCount, problems } = await run({ channelId: "chan-1", limit: 2 });
+
+    expect(problemCount).toBe(6);
+    expect(problems.map(({ line }) => line)).toEqual([7, 8]);
+  });
+
+  it("reads a pasted log without fetching", async () => {
+    requested = [];
+    const result = await run({ logText: log });
+
+    expect(result.source).toBe("pasted log");
+    expect(result.problemCount).toBe(6);
+    expect(requested).toEqual([]);
+  });
+
+  it("reports a channel without a log", async () => {
+    await expect(run({ channelId: "missing" })).rejects.toThrow(
+      /No agent log for channel 'missing' at .*\/agent-logs\/missing\.txt/
+    );
+  });
+
+  it("rejects a channel id that would change the log URL", async () => {
+    requested = [];
+    await expect(run({ channelId: "../admin" })).rejects.toThrow("is not a channel id");
+    expect(requested).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import {
+  fetchAgentLog,
+  logIssueCategories,
+  parseLog,
+  summarizeLog,
+} from "../telex/logs";
+
+const entrySchema = z.object({
+  line: z.number(),
+  timestamp: z.string().optional(),
+  level: z.string().optional(),
+  message: z.string(),
+  status: z.number().optional(),
+  durationMs: z.number().optional(),
+  errorCode: z.number().optional(),
+  url: z.string().optional(),
+  category: z.enum(logIssueCategories).optional(),
+});
+
+export const telexLogsTool = createTool({
+  id: "telex-logs",
+  description:
+    "Fetches a Telex channel's agent log (https://api.telex.im/agent-logs/{channel-id}.txt), parses it and summarizes what went wrong: timeouts, non-2xx responses, invalid JSON-RPC, schema mismatches and unreachable endpoints, each with a suggested fix and the guide section that explains it. Also accepts a pasted log.",
+  inputSchema: z.object({
+    channelId: z
+      .string()
+      .optional()
+      .describe("Telex channel id whose agent log to fetch"),
+    logText: z
+      .string()
+      .optional()
+      .describe("Log text the user pasted, instead of fetching by channel id"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .max(200)
+      .default(20)
+      .describe("How many of the most recent problem entries to return"),
+  }),
+  outputSchema: z.object({
+    source: z.string().describe("Log URL, or `pasted log`"),
+    totalEntries: z.number(),
+    problemCount: z.number(),
+    summary: z.array(
+      z.object({
+        category: z.enum(logIssueCategories),
+        count: z.number(),
+        firstLine: z.number(),
+        lastTimestamp: z.string().optional(),
+        example: z.string(),
+        fix: z.string(),
+        guide: z.object({ id: z.string(), heading: z.string(), title: z.string() }),
+      })
+    ),
+    problems: z.array(entrySchema).describe("Most recent problem entries, oldest first"),
+  }),
+  execute: async ({ context }) => {
+    let source = "pasted log";
+    let text = context.logText;
+    if (!text) {
+      if (!context.channelId) {
+        throw new Error("Pass a channelId to fetch its agent log, or the log text itself");
+      }
+      const log = await fetchAgentLog(context.channelId);
+      source = log.url;
+      text = log.text;
+    }
+
+    const entries = parseLog(text);
+    const problems = entries.filter((entry) => entry.category);
+    return {
+      source,
+      totalEntries: entries.length,
+      problemCount: problems.length,
+      summary: summarizeLog(entries),
+      problems: problems.slice(-context.limit),
+    };
+  },
+});
@@ -0,0 +1,82 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { mastraStack } from "../scaffold/mastra-stack";
+import {
+  describeProject,
+  resolveStack,
+  zipProject,
+  type ProjectSpec,
+} from "../scaffold/project";
+import { stacks as serverStacks } from "../scaffold/server-stacks";
+
+// Mastra comes first so it is the default for TypeScript and JavaScript.
+const stacks = [mastraStack, ...serverStacks];
+
+/** Generates the files of a starter agent project for a language and framework. */
+export function scaffoldProject(spec: ProjectSpec, language: string, framework?: string) {
+  const stack = resolveStack(stacks, language, framework);
+  const project = describeProject(spec);
+  return { stack, project, files: stack.files(project) };
+}
+
+export const scaffoldInputSchema = z.object({
+  language: z.string().describe("Programming language, e.g. TypeScript, Python, Go"),
+  framework: z
+    .string()
+    .optional()
+    .describe("Framework, e.g. Mastra, FastAPI; defaults to the usual one for the language"),
+  agentName: z.string().describe('Name of the agent, e.g. "Weather Helper"'),
+  description: z.string().optional().describe("One sentence on what the agent is for"),
+  capabilities: z
+    .array(z.string())
+    .default([])
+    .describe("What the agent can do, one item each"),
+  zip: z
+    .boolean()
+    .default(false)
+    .describe("Also return the project as a zip archive"),
+});
+
+export const scaffoldOutputSchema = z.object({
+  project: z.object({
+    name: z.string(),
+    language: z.string(),
+    framework: z.string(),
+    endpoint: z.string().describe("Path of the A2A endpoint on the running server"),
+  }),
+  files: z.array(z.object({ path: z.string(), content: z.string() })),
+  archive: z
+    .object({ name: z.string(), mimeType: z.string(), bytes: z.string() })
+    .optional()
+    .describe("Base64-encoded zip of the files, when requested"),
+});
+
+export const scaffoldProjectTool = createTool({
+  id: "scaffold-project",
+  description:
+    "Generates a complete starter repository for a Telex.im agent: server code with an A2A endpoint, dependencies, config and README, for Mastra (TypeScript), Python (FastAPI), Go, Java (Spring Boot), PHP (Slim), Rust (Axum) or C# (ASP.NET Core). Can also return the project as a zip file.",
+  inputSchema: scaffoldInputSchema,
+  outputSchema: scaffoldOutputSchema,
+  execute: async ({ context }) => {
+    const { stack, project, files } = scaffoldProject(
+      {
+        agentName: context.agentName,
+        description: context.description,
+        capabilities: context.capabilities,
+      },
+      context.language,
+      context.framework
+    );
+
+    return {
+      project: {
+        name: project.slug,
+        language: stack.language,
+        framework: stack.framework,
+        endpoint: stack.endpoint(project),
+      },
+      files,
+      ...(context.zip && { archive: zipProject(project, files) }),
+    };
+  },
+});
@@ -0,0 +1,34 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "telex-guide-tool-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+
+const { setGuideEmbedder } = await import("../knowledge/vector-search");
+const { telexGuideTool } = await import("./telex-tool");
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("telexGuideTool", () => {
+  it("still answers from the ranked guides when vector search fails", async () => {
+    setGuideEmbedder({
+      id: "offline",
+      dimension: 8,
+      embed: async () => {
+        throw new Error("embedding provider unreachable");
+      },
+    });
+
+    const result = await telexGuideTool.execute!({
+      context: { query: "How do I deploy my Mastra agent?" },
+      runtimeContext: new RuntimeContext(),
+    });
+
+    expect(result.citations).toEqual([]);
+    expect(result.sections).not.toHaveLength(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import {
+  formatWorkflowIssue,
+  generateWorkflow,
+  telexNodeTypes,
+  telexWorkflowSchema,
+  validateWorkflow,
+} from "../telex/workflow";
+
+export const telexWorkflowTool = createTool({
+  id: "telex-workflow",
+  description:
+    "Generates Telex.im workflow JSON for an agent, or validates workflow JSON a user pasted: reports missing fields, bad URLs, duplicate node ids and connections to nodes that don't exist, with line numbers.",
+  inputSchema: z.object({
+    workflowJson: z
+      .string()
+      .optional()
+      .describe("Workflow JSON to validate, exactly as the user pasted it"),
+    agentName: z
+      .string()
+      .optional()
+      .describe("To generate a workflow: the agent's display name"),
+    url: z
+      .string()
+      .optional()
+      .describe("To generate a workflow: the agent's public A2A endpoint URL"),
+    nodeType: z
+      .enum(telexNodeTypes)
+      .optional()
+      .describe("a2a/mastra-a2a-node for Mastra agents, a2a/generic-node for anything else"),
+    category: z
+      .string()
+      .optional()
+      .describe("Workflow category, e.g. developer-tools, automation"),
+    description: z.string().optional().describe("What the workflow does"),
+  }),
+  outputSchema: z.object({
+    valid: z.boolean(),
+    workflow: telexWorkflowSchema.optional(),
+    json: z.string().optional().describe("The generated workflow, formatted"),
+    issues: z
+      .array(z.string())
+      .describe("One line per problem, e.g. `line 7: workflow.nodes[0].url: ...`"),
+  }),
+  execute: async ({ context }) => {
+    if (context.workflowJson) {
+      const { valid, issues, workflow } = validateWorkflow(context.workflowJson);
+      return { valid, issues: issues.map(formatWorkflowIssue), ...(workflow && { workflow }) };
+    }
+
+    if (!context.agentName || !context.url) {
+      throw new Error(
+        "Pass workflowJson to validate a workflow, or agentName and url to generate one"
+      );
+    }
+    const json = JSON.stringify(
+      generateWorkflow({
+        agentName: context.agentName,
+        url: context.url,
+        nodeType: context.nodeType,
+        category: context.category,
+        description: context.description,
+      }),
+      null,
+      2
+    );
+    // Generated workflows go through the same checks, so a bad URL is reported
+    // rather than baked in.
+    const { valid, issues, workflow } = validateWorkflow(json);
+    return { valid, issues: issues.map(formatWorkflowIssue), json, ...(workflow && { workflow }) };
+  },
+});
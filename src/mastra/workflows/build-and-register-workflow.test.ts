@@ -0,0 +1,109 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Mastra } from "@mastra/core/mastra";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "build-and-register-"));
+vi.stubEnv("LIBSQL_URL", `file:${join(dir, "mastra.db")}`);
+vi.stubEnv("LIBSQL_VECTOR_URL", `file:${join(dir, "vectors.db")}`);
+
+const { a2aAgentRoute } = await import("../routes/a2a-agent-route");
+const { serveRoutes, testAgent, textModel } = await import("../a2a/test-server");
+const { buildAndRegisterWorkflow } = await import("./build-and-register-workflow");
+
+// The agent being registered, served locally as it would be while developing.
+const mastra = new Mastra({
+  agents: { weatherHelperAgent: testAgent(textModel("It is sunny in Lagos.")) },
+  logger: false,
+});
+let server: Awaited<ReturnType<typeof serveRoutes>>;
+
+beforeAll(async () => {
+  server = await serveRoutes(mastra, [a2aAgentRoute]);
+});
+
+afterAll(async () => {
+  await server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function run(spec: { language: string; url: string }) {
+  const workflowRun = await buildAndRegisterWorkflow.createRunAsync();
+  const result = await workflowRun.start({
+    inputData: { agentName: "Weather Helper", timeoutMs: 10_000, ...spec },
+  });
+  if (result.status !== "success") throw new Error(`Workflow ${result.status}`);
+  return result.result;
+}
+
+describe("buildAndRegisterWorkflow", () => {
+  it("builds, registers and checks a locally served agent", async () => {
+    const url = `${server.url}/a2a/agent/weatherHelperAgent`;
+    const report = await run({ language: "TypeScript", url });
+
+    expect(report.checks).toEqual([
+      expect.objectContaining({ step: "build", passed: true }),
+      expect.objectContaining({
+        step: "telex-workflow",
+        passed: true,
+        details: expect.arrayContaining([expect.stringContaining("warning: ")]),
+      }),
+      expect.objectContaining({
+        step: "conformance",
+        passed: true,
+        summary: expect.stringMatching(new RegExp(`^(\\d+) of \\1 checks passed against ${url}$`)),
+      }),
+    ]);
+    expect(report.ready).toBe(true);
+    expect(report.project).toMatchObject({
+      language: "TypeScript",
+      framework: "Mastra",
+      endpoint: "/a2a/agent/weatherHelperAgent",
+    });
+    expect(report.files.map((file) => file.path)).toContain("package.json");
+    expect(JSON.parse(report.telexWorkflowJson!).nodes[0]).toMatchObject({
+      type: "a2a/mastra-a2a-node",
+      url,
+    });
+    expect(report.checklist).toMatch(/^- \[x\] Build the project: /);
+    expect(report.checklist).toContain("Ready: import the workflow JSON into Telex");
+  });
+
+  it("runs the later checks when the build fails", async () => {
+    const report = await run({
+      language: "COBOL",
+      url: `${server.url}/a2a/agent/weatherHelperAgent`,
+    });
+
+    expect(report.checks.map(({ step, passed }) => [step, passed])).toEqual([
+      ["build", false],
+      ["telex-workflow", true],
+      ["conformance", true],
+    ]);
+    expect(report.ready).toBe(false);
+    expect(report.project).toBeUndefined();
+    expect(report.checklist).toMatch(/^- \[ \] Build the project: /);
+    expect(report.checklist).toContain("Not ready yet");
+  });
+
+  it("reports failed conformance checks in the checklist", async () => {
+    const report = await run({ language: "TypeScript", url: `${server.url}/a2a/agent/nobody` });
+
+    expect(report.checks.map(({ step, passed }) => [step, passed])).toEqual([
+      ["build", true],
+      ["telex-workflow", true],
+      ["conformance", false],
+    ]);
+    expect(report.ready).toBe(false);
+    // Envelope errors are answered before the agent is looked up, so only the
+    // checks that send a message fail
+    expect(report.checklist).toMatch(/^- \[ \] A2A conformance check: \d+ of \d+ checks passed/m);
+    expect(report.checklist).toContain(
+      "  - FAIL text-part: agent answered with error -32602: Agent 'nobody' not found"
+    );
+    expect(report.checklist).toContain(
+      "warning: url: the generated project answers A2A calls at /a2a/agent/weatherHelperAgent"
+    );
+  });
+});
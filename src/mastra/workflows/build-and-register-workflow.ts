@@ -0,0 +1,305 @@
+import { createStep, createWorkflow } from "@mastra/core/workflows";
+import { z } from "zod";
+import { runConformanceChecks } from "../a2a/conformance";
+import { guideIndex, renderGuide } from "../knowledge/guides";
+import { formatWorkflowIssue, generateWorkflow, validateWorkflow } from "../telex/workflow";
+import { scaffoldProject } from "../tools/scaffold-tool";
+import { getMastraIntegrationGuide, getTelexIntegrationGuide } from "../tools/telex-tool";
+
+const checkSteps = ["build", "telex-workflow", "conformance"] as const;
+
+const checkTitles: Record<(typeof checkSteps)[number], string> = {
+  build: "Build the project",
+  "telex-workflow": "Generate the Telex workflow",
+  conformance: "A2A conformance check",
+};
+
+const specSchema = z.object({
+  agentName: z.string().describe('Name of the agent, e.g. "Weather Helper"'),
+  description: z.string().optional().describe("One sentence on what the agent is for"),
+  capabilities: z
+    .array(z.string())
+    .default([])
+    .describe("What the agent can do, one item each"),
+  language: z.string().describe("Programming language, e.g. TypeScript, Python, Go"),
+  framework: z
+    .string()
+    .optional()
+    .describe("Framework, e.g. Mastra, FastAPI; defaults to the usual one for the language"),
+  url: z
+    .string()
+    .describe(
+      "Where the agent answers A2A calls: its public URL, or e.g. http://localhost:4111/a2a/agent/weatherHelperAgent while it runs locally"
+    ),
+  bearerToken: z
+    .string()
+    .optional()
+    .describe("API key the endpoint expects as `Authorization: Bearer <key>`, if any"),
+  category: z.string().optional().describe("Telex workflow category, e.g. developer-tools"),
+  timeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .max(120_000)
+    .optional()
+    .describe("How long each conformance check waits; Telex allows about 30000"),
+});
+
+const checkSchema = z.object({
+  step: z.enum(checkSteps),
+  passed: z.boolean(),
+  summary: z.string(),
+  details: z.array(z.string()).describe("One line each, e.g. a file, issue or check result"),
+});
+
+const guideSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  example: z.string().optional(),
+});
+
+const projectSchema = z.object({
+  name: z.string(),
+  language: z.string(),
+  framework: z.string(),
+  endpoint: z.string().describe("Path of the A2A endpoint on the running server"),
+});
+
+const fileSchema = z.object({ path: z.string(), content: z.string() });
+
+// Each step adds its check to those before it and passes everything on, so a
+// failed step still leaves the rest of the report. The bearer token stays out
+// of step outputs; the conformance step reads it from the workflow's input.
+const buildSchema = z.object({
+  spec: specSchema.omit({ bearerToken: true }),
+  checks: z.array(checkSchema),
+  project: projectSchema.optional(),
+  files: z.array(fileSchema),
+  setupGuide: guideSchema.optional(),
+});
+
+const registerSchema = buildSchema.extend({
+  telexWorkflowJson: z.string().optional(),
+  connectGuide: guideSchema,
+});
+
+const reportSchema = z.object({
+  ready: z.boolean().describe("Every check passed"),
+  checklist: z.string().describe("The checks as a Markdown checklist"),
+  checks: z.array(checkSchema),
+  project: projectSchema.optional(),
+  files: z.array(fileSchema),
+  telexWorkflowJson: z
+    .string()
+    .optional()
+    .describe("Ready to import into Telex"),
+  guides: z.object({ setup: guideSchema.optional(), connect: guideSchema }),
+});
+
+function guide({ title, content, example }: ReturnType<typeof renderGuide>) {
+  return { title, content, ...(example && { example }) };
+}
+
+const buildStep = createStep({
+  id: "build-step",
+  description: "Generates the starter project for the agent spec",
+  inputSchema: specSchema,
+  outputSchema: buildSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for build step");
+
+    const { bearerToken: _bearerToken, ...spec } = inputData;
+    const { agentName, description, capabilities, language, framework } = spec;
+    try {
+      const { stack, project, files } = scaffoldProject(
+        { agentName, description, capabilities },
+        language,
+        framework
+      );
+      const setupGuide =
+        stack.id === "mastra"
+          ? getMastraIntegrationGuide("setup a new Mastra project")
+          : renderGuide(
+              guideIndex.forLanguage(language)[0] ?? guideIndex.get("generic-integration"),
+              language
+            );
+
+      return {
+        spec,
+        checks: [
+          {
+            step: "build" as const,
+            passed: true,
+            summary: `Generated ${files.length} files for a ${stack.language} (${stack.framework}) project`,
+            details: files.map((file) => file.path),
+          },
+        ],
+        project: {
+          name: project.slug,
+          language: stack.language,
+          framework: stack.framework,
+          endpoint: stack.endpoint(project),
+        },
+        files,
+        setupGuide: guide(setupGuide),
+      };
+    } catch (error) {
+      return {
+        spec,
+        checks: [
+          {
+            step: "build" as const,
+            passed: false,
+            summary: (error as Error).message,
+            details: [],
+          },
+        ],
+        files: [],
+      };
+    }
+  },
+});
+
+const telexWorkflowStep = createStep({
+  id: "telex-workflow-step",
+  description: "Generates and validates Telex workflow JSON pointing at the agent's URL",
+  inputSchema: buildSchema,
+  outputSchema: registerSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for Telex workflow step");
+
+    const { spec, project } = inputData;
+    const json = JSON.stringify(
+      generateWorkflow({
+        agentName: spec.agentName,
+        url: spec.url,
+        nodeType: project?.framework === "Mastra" ? "a2a/mastra-a2a-node" : "a2a/generic-node",
+        category: spec.category,
+        description: spec.description,
+      }),
+      null,
+      2
+    );
+    const { valid, issues, workflow } = validateWorkflow(json);
+    const details = issues.map(formatWorkflowIssue);
+    // The generated project only answers on its own endpoint path
+    if (
+      project &&
+      URL.canParse(spec.url) &&
+      !new URL(spec.url).pathname.endsWith(project.endpoint)
+    ) {
+      details.push(`warning: url: the generated project answers A2A calls at ${project.endpoint}`);
+    }
+
+    return {
+      ...inputData,
+      checks: [
+        ...inputData.checks,
+        {
+          step: "telex-workflow" as const,
+          passed: valid,
+          summary:
+            valid && workflow
+              ? `Generated workflow '${workflow.name}' (${workflow.nodes[0].type}) for ${spec.url}`
+              : "The generated workflow JSON is invalid",
+          details,
+        },
+      ],
+      ...(valid && { telexWorkflowJson: json }),
+      connectGuide: guide(getTelexIntegrationGuide("connect the agent to a Telex workflow")),
+    };
+  },
+});
+
+const conformanceStep = createStep({
+  id: "conformance-step",
+  description: "Sends the agent's URL the requests Telex will send and checks its replies",
+  inputSchema: registerSchema,
+  outputSchema: registerSchema,
+  execute: async ({ inputData, getInitData }) => {
+    if (!inputData) throw new Error("No input data found for conformance step");
+
+    const { url, timeoutMs } = inputData.spec;
+    const { bearerToken } = getInitData<typeof specSchema>();
+    const check = await runConformanceChecks(url, {
+      headers: bearerToken ? { Authorization: `Bearer ${bearerToken}` } : {},
+      timeoutMs,
+    }).then(
+      (report) => ({
+        step: "conformance" as const,
+        passed: report.failed === 0,
+        summary: `${report.passed} of ${report.results.length} checks passed against ${url}`,
+        details: report.results.map(
+          (result) => `${result.passed ? "pass" : "FAIL"} ${result.id}: ${result.message}`
+        ),
+      }),
+      (error: Error) => ({
+        step: "conformance" as const,
+        passed: false,
+        summary: error.message,
+        details: [],
+      })
+    );
+
+    return { ...inputData, checks: [...inputData.checks, check] };
+  },
+});
+
+const reportStep = createStep({
+  id: "report-step",
+  description: "Summarizes the checks as a checklist, with the files, workflow JSON and guides",
+  inputSchema: registerSchema,
+  outputSchema: reportSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for report step");
+
+    const { checks, project, files, telexWorkflowJson, setupGuide, connectGuide } = inputData;
+    const ready = checks.every((check) => check.passed);
+    const lines = checks.flatMap((check) => [
+      `- [${check.passed ? "x" : " "}] ${checkTitles[check.step]}: ${check.summary}`,
+      // Failed checks say why and passed ones keep their warnings (e.g. a
+      // localhost URL); conformance lists just the checks that failed
+      ...check.details
+        .filter((detail) =>
+          check.step === "conformance"
+            ? detail.startsWith("FAIL")
+            : !check.passed || detail.includes("warning: ")
+        )
+        .map((detail) => `  - ${detail}`),
+    ]);
+
+    return {
+      ready,
+      checklist: [
+        ...lines,
+        "",
+        ready
+          ? "Ready: import the workflow JSON into Telex to add the agent as a colleague."
+          : "Not ready yet: fix the unchecked steps and run the workflow again.",
+      ].join("\n"),
+      checks,
+      ...(project && { project }),
+      files,
+      ...(telexWorkflowJson && { telexWorkflowJson }),
+      guides: { ...(setupGuide && { setup: setupGuide }), connect: connectGuide },
+    };
+  },
+});
+
+const buildAndRegisterWorkflow = createWorkflow({
+  id: "build-and-register-workflow",
+  description:
+    "Takes an agent spec and its URL, generates the project files and the Telex workflow JSON, runs an A2A conformance check against the URL and returns a pass/fail checklist",
+  inputSchema: specSchema,
+  outputSchema: reportSchema,
+  // Fills in defaults such as `capabilities` however the workflow is started
+  options: { validateInputs: true },
+})
+  .then(buildStep)
+  .then(telexWorkflowStep)
+  .then(conformanceStep)
+  .then(reportStep);
+
+buildAndRegisterWorkflow.commit();
+
+export { buildAndRegisterWorkflow };
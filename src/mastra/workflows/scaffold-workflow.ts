@@ -0,0 +1,73 @@
+import { createStep, createWorkflow } from "@mastra/core/workflows";
+import { z } from "zod";
+import { zipProject } from "../scaffold/project";
+import {
+  scaffoldInputSchema,
+  scaffoldOutputSchema,
+  scaffoldProject,
+} from "../tools/scaffold-tool";
+
+const generatedSchema = scaffoldOutputSchema.omit({ archive: true }).extend({
+  zip: z.boolean(),
+});
+
+const generateStep = createStep({
+  id: "generate-step",
+  description: "Picks the stack for the language and framework and generates the project files",
+  inputSchema: scaffoldInputSchema,
+  outputSchema: generatedSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for generate step");
+
+    const { agentName, description, capabilities, language, framework, zip } = inputData;
+    const { stack, project, files } = scaffoldProject(
+      { agentName, description, capabilities },
+      language,
+      framework
+    );
+
+    return {
+      project: {
+        name: project.slug,
+        language: stack.language,
+        framework: stack.framework,
+        endpoint: stack.endpoint(project),
+      },
+      files,
+      zip,
+    };
+  },
+});
+
+const packageStep = createStep({
+  id: "package-step",
+  description: "Zips the generated files when an archive was requested",
+  inputSchema: generatedSchema,
+  outputSchema: scaffoldOutputSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for package step");
+
+    const { project, files, zip } = inputData;
+    return {
+      project,
+      files,
+      ...(zip && { archive: zipProject({ slug: project.name }, files) }),
+    };
+  },
+});
+
+const scaffoldWorkflow = createWorkflow({
+  id: "scaffold-workflow",
+  description:
+    "Generates a starter repository for a Telex.im agent in the given language and framework, optionally zipped; the workflow form of the scaffold-project tool",
+  inputSchema: scaffoldInputSchema,
+  outputSchema: scaffoldOutputSchema,
+  // Fills in defaults such as `capabilities` however the workflow is started
+  options: { validateInputs: true },
+})
+  .then(generateStep)
+  .then(packageStep);
+
+scaffoldWorkflow.commit();
+
+export { scaffoldWorkflow };
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { telexAgentWorkflow } from "./telex-workflow";
+
+// What the intake step made of a request.
+async function intake(inputData: { query: string; language?: string }) {
+  const run = await telexAgentWorkflow.createRunAsync();
+  const result = await run.start({ inputData });
+  return result.steps["intake-step"];
+}
+
+describe("telexAgentWorkflow intake", () => {
+  it.each([
+    ["How do I connect my Python agent to Telex with the generic-node?", "python", "fastapi"],
+    ["How do I wire my Go service into Telex through a2a/generic-node?", "go", "generic"],
+    ["Can my Python agent sit behind the a2a/mastra-a2a-node?", "python", "fastapi"],
+    ["How should my Python agent call a Node.js service?", "python", "fastapi"],
+    ["Build an agent in Node.js", "typescript", "mastra"],
+    ["Set up a Mastra agent", "typescript", "mastra"],
+  ])("classifies %j", async (query, language, path) => {
+    expect(await intake({ query })).toMatchObject({
+      status: "success",
+      output: { language, path },
+    });
+  });
+
+  it("reads a language given as node as TypeScript", async () => {
+    expect(await intake({ query: "Build an agent", language: "node" })).toMatchObject({
+      output: { language: "typescript", path: "mastra" },
+    });
+  });
+
+  it("treats errors the agent handles as part of building it", async () => {
+    expect(await intake({ query: "How do I handle errors in my Go agent?" })).toMatchObject({
+      output: { goal: "setup" },
+    });
+    expect(await intake({ query: "My Go agent returns an error when Telex calls it" })).toMatchObject({
+      output: { goal: "debug" },
+    });
+  });
+});
@@ -1,77 +1,379 @@
 import { createStep, createWorkflow } from "@mastra/core/workflows";
 import { z } from "zod";
-import { getMastraIntegrationGuide } from "../tools/telex-tool";
-import { getTelexIntegrationGuide } from "../tools/telex-tool";
+import { guideIndex, renderGuide, type Guide } from "../knowledge/guides";
 
-const mastraSetupStep = createStep({
-  id: "mastra-setup-step",
+const setupPaths = ["mastra", "fastapi", "generic"] as const;
+const goals = ["setup", "integrate", "deploy", "debug", "learn"] as const;
+const deploymentTargets = ["vercel", "railway", "render", "fly.io", "mastra-cloud", "docker"] as const;
+const experienceLevels = ["beginner", "intermediate", "advanced"] as const;
+
+type DeploymentTarget = (typeof deploymentTargets)[number];
+
+// Languages recognized in a query, including a few without a guide of their
+// own; those take the generic path with the language filled in. TypeScript
+// comes last so a query that names another language as well (say a Python
+// agent calling a Node.js service) keeps that language.
+const languagePatterns: [string, RegExp][] = [
+  ["python", /\b(python|py)\b/],
+  ["go", /^go$|\bgolang\b|\b(in|with|using) go\b|\bgo (agent|server|code|project|service)\b/],
+  ["java", /\bjava\b/],
+  ["php", /\bphp\b/],
+  ["rust", /\brust\b/],
+  ["csharp", /c#|\bcsharp\b|\bdotnet\b|\.net\b/],
+  ["ruby", /\b(ruby|rails)\b/],
+  ["elixir", /\belixir\b/],
+  ["kotlin", /\bkotlin\b/],
+  ["typescript", /^node$|\b(typescript|ts|javascript|js|node\.?js)\b/],
+];
+
+// Telex's own workflow nodes, e.g. `a2a/generic-node` and
+// `a2a/mastra-a2a-node`. They say how Telex calls an agent, not what it is
+// written in, so they are left out before detecting language and framework.
+const telexNodePattern = /\b(a2a\/)?[a-z0-9-]+-node\b/g;
+
+// Frameworks also settle the language when the query doesn't name it.
+const frameworkPatterns: [string, string, RegExp][] = [
+  ["Mastra", "typescript", /\bmastra\b/],
+  ["FastAPI", "python", /\bfastapi\b/],
+  ["Flask", "python", /\bflask\b/],
+  ["Django", "python", /\bdjango\b/],
+  ["Spring Boot", "java", /\bspring\b/],
+  ["Laravel", "php", /\blaravel\b/],
+  ["Axum", "rust", /\baxum\b/],
+  ["ASP.NET Core", "csharp", /\basp\.?net\b/],
+];
+
+// First match wins, so a failing deploy counts as debugging. Errors the agent
+// handles or returns are part of building it, not a problem to debug.
+const goalPatterns: [(typeof goals)[number], RegExp][] = [
+  [
+    "debug",
+    /(?<!\b(handl(e|es|ing)|return(s|ing)?|throw(s|ing)?) )\berrors?\b(?! handling)|\b(fail(s|ed|ing)?|broken|debug|crash(es|ing)?|not (working|responding)|doesn'?t (work|respond))\b/,
+  ],
+  ["deploy", /\b(deploy(ing|ment)?|host(ing)?|production|vercel|railway|render\.com|fly\.io)\b/],
+  ["integrate", /\b(connect|integrat(e|ing|ion)|workflow|register|channel)\b/],
+  ["learn", /\b(what is|what's|explain|overview|how does|why)\b/],
+];
+
+const deploymentTargetPatterns: [DeploymentTarget, RegExp][] = [
+  ["vercel", /\bvercel\b/],
+  ["railway", /\brailway\b/],
+  ["render", /^render$|\brender\.com\b|\bon render\b/],
+  ["fly.io", /^fly$|\bfly\.io\b/],
+  ["mastra-cloud", /\bmastra[ -]cloud\b/],
+  ["docker", /\b(docker|container|kubernetes|k8s)\b/],
+];
+
+const experiencePatterns: [(typeof experienceLevels)[number], RegExp][] = [
+  ["beginner", /\b(beginner|new to|first (time|agent)|never (built|used))\b/],
+  ["intermediate", /\b(intermediate|some experience)\b/],
+  ["advanced", /\b(advanced|experienced|senior|expert)\b/],
+];
+
+// As in the deployment sections of the guides.
+const deployCommands: Record<DeploymentTarget, string> = {
+  vercel: "vercel deploy",
+  railway: "railway up",
+  render: "git push origin main  # Render deploys from your GitHub repo",
+  "fly.io": "fly launch",
+  "mastra-cloud": "mastra deploy",
+  docker: "docker build -t my-agent .  # then run the image on any container host",
+};
+
+const guideSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  example: z.string().optional(),
+});
+
+const requestSchema = z.object({
+  query: z.string().describe("The user question or request for guidance"),
+  language: z.string().optional().describe("Programming language, if known"),
+  framework: z.string().optional().describe("Framework, if known"),
+  deploymentTarget: z.enum(deploymentTargets).optional().describe("Where they will deploy, if known"),
+  experience: z.enum(experienceLevels).optional().describe("Their experience building agents, if known"),
+});
+
+const intakeSchema = z.object({
+  query: z.string(),
+  language: z.string().optional().describe("Detected or given language, lowercase"),
+  framework: z.string().optional(),
+  deploymentTarget: z.enum(deploymentTargets).optional(),
+  experience: z.enum(experienceLevels).optional(),
+  goal: z.enum(goals),
+  path: z.enum(setupPaths),
+});
+
+type Intake = z.infer<typeof intakeSchema>;
+
+const questionFieldSchema = z.object({
+  name: z.enum(["language", "deploymentTarget", "experience"]),
+  prompt: z.string(),
+  options: z.array(z.string()),
+  required: z.boolean(),
+});
+
+// What the intake step asks when it can't pick a path. `question` is what the
+// A2A route shows the developer; their reply comes back as `answer`.
+const questionSchema = z.object({
+  question: z.string(),
+  fields: z.array(questionFieldSchema),
+});
+
+const answerSchema = z.object({
+  answer: z.string().optional().describe("The developer's reply, read for the fields below"),
+  language: z.string().optional(),
+  deploymentTarget: z.enum(deploymentTargets).optional(),
+  experience: z.enum(experienceLevels).optional(),
+});
+
+const mastraPathSchema = z.object({
+  path: z.literal("mastra"),
+  intake: intakeSchema,
+  mastraSetup: guideSchema,
+});
+
+const fastapiPathSchema = z.object({
+  path: z.literal("fastapi"),
+  intake: intakeSchema,
+  fastapiSetup: guideSchema,
+});
+
+const genericPathSchema = z.object({
+  path: z.literal("generic"),
+  intake: intakeSchema,
+  languageGuide: guideSchema,
+  note: z.string().optional(),
+});
+
+function guide(source: Guide, language = "") {
+  const { title, content, example } = renderGuide(source, language);
+  return { title, content, ...(example && { example }) };
+}
+
+// The first pattern to match the first text that has a match.
+function detect<T>(patterns: [T, RegExp][], ...texts: string[]) {
+  for (const text of texts) {
+    const match = patterns.find(([, pattern]) => pattern.test(text));
+    if (match) return match[0];
+  }
+  return undefined;
+}
+
+/**
+ * Works out language, framework, goal and setup path from a query. Values
+ * given outright win, then whatever the developer's answer names, then the
+ * query.
+ */
+function classify(
+  { query, ...given }: z.infer<typeof requestSchema>,
+  answer = ""
+): Intake {
+  const q = query.toLowerCase().replace(telexNodePattern, " ");
+  const a = answer.trim().toLowerCase().replace(telexNodePattern, " ");
+
+  const framework = given.framework
+    ? frameworkPatterns.find(([name]) => name.toLowerCase() === given.framework!.trim().toLowerCase())
+    : (frameworkPatterns.find(([, , pattern]) => pattern.test(a)) ??
+      frameworkPatterns.find(([, , pattern]) => pattern.test(q)));
+  const language = given.language
+    ? (detect(languagePatterns, given.language.trim().toLowerCase()) ??
+      given.language.trim().toLowerCase())
+    : (detect(languagePatterns, a, q) ?? framework?.[1]);
+  const frameworkName = given.framework?.trim() || framework?.[0];
+  const deploymentTarget = given.deploymentTarget ?? detect(deploymentTargetPatterns, a, q);
+  const experience = given.experience ?? detect(experiencePatterns, a, q);
+  const goal = detect(goalPatterns, q) ?? "setup";
+
+  // Mastra is the TypeScript default and FastAPI the Python one, as in the
+  // scaffolding tool; everything else follows the language's own guide.
+  const path =
+    frameworkName === "Mastra" || (language === "typescript" && !frameworkName)
+      ? "mastra"
+      : language === "python"
+        ? "fastapi"
+        : "generic";
+
+  return {
+    query,
+    ...(language && { language }),
+    ...(frameworkName && { framework: frameworkName }),
+    ...(deploymentTarget && { deploymentTarget }),
+    ...(experience && { experience }),
+    goal,
+    path,
+  };
+}
+
+// Questions for whatever the intake couldn't work out. Only the language (and
+// the target, for deploy questions) is needed to go on; the rest rides along.
+function missingFields(intake: Intake): z.infer<typeof questionFieldSchema>[] {
+  return [
+    !intake.language && {
+      name: "language" as const,
+      prompt: "Which programming language will you build your agent in?",
+      options: ["TypeScript", "Python", "Go", "Java", "PHP", "Rust", "C#"],
+      required: true,
+    },
+    !intake.deploymentTarget && {
+      name: "deploymentTarget" as const,
+      prompt: "Where will you deploy it?",
+      options: [...deploymentTargets],
+      required: intake.goal === "deploy",
+    },
+    !intake.experience && {
+      name: "experience" as const,
+      prompt: "How much experience do you have building agents?",
+      options: [...experienceLevels],
+      required: false,
+    },
+  ].filter((field) => field !== false);
+}
+
+const intakeStep = createStep({
+  id: "intake-step",
   description:
-    "Guides TypeScript developers to setup Mastra and build their agent",
-  inputSchema: z.object({
-    query: z.string().describe("The user question or setup request"),
-  }),
-  outputSchema: z.object({
-    title: z.string(),
-    content: z.string(),
-    example: z.string().optional(),
-    query: z.string(), // Pass query forward for next step
-  }),
+    "Classifies the developer's language, framework and goal to pick a setup path, asking when they are unclear",
+  inputSchema: requestSchema,
+  outputSchema: intakeSchema,
+  suspendSchema: questionSchema,
+  resumeSchema: answerSchema,
+  execute: async ({ inputData, resumeData, suspend }) => {
+    if (!inputData) throw new Error("No input data found for intake step");
+
+    const { answer, ...answered } = resumeData ?? {};
+    const intake = classify({ ...inputData, ...answered }, answer);
+
+    // Ask once; after an answer, go on with whatever is known
+    const fields = resumeData ? [] : missingFields(intake);
+    if (fields.some((field) => field.required)) {
+      const lines = fields.map(
+        (field) =>
+          `- ${field.prompt} (${field.options.join(", ")}${field.required ? "" : "; optional"})`
+      );
+      return await suspend({
+        question: `A few quick questions so I can point you at the right guide:\n${lines.join("\n")}`,
+        fields,
+      });
+    }
+    return intake;
+  },
+});
+
+const mastraPathStep = createStep({
+  id: "mastra-path-step",
+  description: "Guides TypeScript developers to setup Mastra and build their agent",
+  inputSchema: intakeSchema,
+  outputSchema: mastraPathSchema,
   execute: async ({ inputData }) => {
-    if (!inputData)
-      throw new Error("No input data found for Mastra setup step");
+    if (!inputData) throw new Error("No input data found for Mastra setup step");
 
-    const result = getMastraIntegrationGuide(inputData.query);
+    const source = inputData.goal === "learn" ? "mastra" : "mastra-setup";
+    return {
+      path: "mastra" as const,
+      intake: inputData,
+      mastraSetup: guide(guideIndex.get(source)),
+    };
+  },
+});
 
+const fastapiPathStep = createStep({
+  id: "fastapi-path-step",
+  description: "Guides Python developers to build an A2A agent with FastAPI",
+  inputSchema: intakeSchema,
+  outputSchema: fastapiPathSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for FastAPI setup step");
+
+    const source = inputData.goal === "learn" ? "python-fastapi" : "python-fastapi-setup";
     return {
-      ...result,
-      query: inputData.query, // Pass query to next step
+      path: "fastapi" as const,
+      intake: inputData,
+      fastapiSetup: guide(guideIndex.get(source)),
     };
   },
 });
 
-const telexIntegrationStep = createStep({
-  id: "telex-integration-step",
-  description: "Guides developers on connecting their agents to Telex.im",
+const genericPathStep = createStep({
+  id: "generic-path-step",
+  description:
+    "Guides developers in any other language to implement the A2A endpoint themselves",
+  inputSchema: intakeSchema,
+  outputSchema: genericPathSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) throw new Error("No input data found for generic setup step");
+
+    const { language } = inputData;
+    const own = language ? guideIndex.forLanguage(language)[0] : undefined;
+    return {
+      path: "generic" as const,
+      intake: inputData,
+      languageGuide: guide(own ?? guideIndex.get("generic-integration"), language),
+      ...(!own && {
+        note: language
+          ? `There is no ${language} guide yet, so this is the language-neutral A2A guide.`
+          : "No language detected; pass `language` for a guide in yours.",
+      }),
+    };
+  },
+});
+
+// Whichever setup path ran, plus the steps every path shares.
+const sharedOutput = {
+  deployAndConnect: guideSchema,
+  deployment: z
+    .object({ target: z.enum(deploymentTargets), commands: z.string() })
+    .optional(),
+};
+const workflowOutputSchema = z.discriminatedUnion("path", [
+  mastraPathSchema.extend(sharedOutput),
+  fastapiPathSchema.extend(sharedOutput),
+  genericPathSchema.extend(sharedOutput),
+]);
+
+const deployAndConnectStep = createStep({
+  id: "deploy-and-connect-step",
+  description: "Guides developers on deploying their agent and connecting it to Telex.im",
+  // `.branch()` passes on the output of the step that ran, keyed by its id
   inputSchema: z.object({
-    title: z.string(),
-    content: z.string(),
-    example: z.string().optional(),
-    query: z.string().describe("The user question or integration request"),
-  }),
-  outputSchema: z.object({
-    title: z.string(),
-    content: z.string(),
-    example: z.string().optional(),
+    "mastra-path-step": mastraPathSchema.optional(),
+    "fastapi-path-step": fastapiPathSchema.optional(),
+    "generic-path-step": genericPathSchema.optional(),
   }),
+  outputSchema: workflowOutputSchema,
   execute: async ({ inputData }) => {
-    if (!inputData)
-      throw new Error("No input data found for Telex integration step");
+    const result =
+      inputData?.["mastra-path-step"] ??
+      inputData?.["fastapi-path-step"] ??
+      inputData?.["generic-path-step"];
+    if (!result) throw new Error("No setup path ran before the deploy and connect step");
 
-    return getTelexIntegrationGuide(inputData.query);
+    const { goal, language, deploymentTarget } = result.intake;
+    const source = goal === "learn" ? "telex" : "telex-integration";
+    return {
+      ...result,
+      deployAndConnect: guide(guideIndex.get(source), language),
+      ...(deploymentTarget && {
+        deployment: { target: deploymentTarget, commands: deployCommands[deploymentTarget] },
+      }),
+    };
   },
 });
 
 const telexAgentWorkflow = createWorkflow({
   id: "telex-agent-builder-workflow",
-  inputSchema: z.object({
-    query: z.string().describe("The user question or request for guidance"),
-  }),
-  outputSchema: z.object({
-    mastraSetup: z.object({
-      title: z.string(),
-      content: z.string(),
-      example: z.string().optional(),
-      query: z.string(),
-    }),
-    telexIntegration: z.object({
-      title: z.string(),
-      content: z.string(),
-      example: z.string().optional(),
-    }),
-  }),
+  description:
+    "Onboards a developer: works out their language, framework and goal (asking if unclear), then returns the setup guide for their stack and how to deploy and connect it to Telex.im",
+  inputSchema: requestSchema,
+  outputSchema: workflowOutputSchema,
 })
-  .then(mastraSetupStep)
-  .then(telexIntegrationStep);
+  .then(intakeStep)
+  .branch([
+    [async ({ inputData }) => inputData.path === "mastra", mastraPathStep],
+    [async ({ inputData }) => inputData.path === "fastapi", fastapiPathStep],
+    [async ({ inputData }) => inputData.path === "generic", genericPathStep],
+  ])
+  .then(deployAndConnectStep);
 
 telexAgentWorkflow.commit();
 